@@ -0,0 +1,58 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import styles from './LoginForm.module.css';
+
+/**
+ * Sign-in form
+ * Exchanges username and password for an auth token via the WebSocket context
+ */
+export default function LoginForm() {
+  const { login } = useWebSocket();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit}>
+      <label htmlFor="username">Username</label>
+      <input
+        id="username"
+        type="text"
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        required
+      />
+      <label htmlFor="password">Password</label>
+      <input
+        id="password"
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        required
+      />
+      {error && <p className={styles.error}>{error}</p>}
+      <button type="submit" className={styles.button} disabled={isSubmitting || !username || !password}>
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
@@ -2,49 +2,104 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useWebSocket } from '../contexts/WebSocketContext';
+import { MilkYield, SessionEndReason } from '../types/socket-events';
+import { formatTime, formatDateTime, formatYield } from '../utils/formatters';
 import CowIcon from './CowIcon';
 import GrassDecoration from './GrassDecoration';
+import SessionCard from './SessionCard';
+import SessionTimeline from './SessionTimeline';
+import LoginForm from './LoginForm';
 import styles from './MilkingSession.module.css';
 
-const DEFAULT_USER_ID = 'user123';
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+// Sessions fetched per history page
+const HISTORY_PAGE_SIZE = 20;
+
+// Formats offered by the history export
+const EXPORT_FORMATS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ndjson', label: 'NDJSON' },
+];
+
+interface Animal {
+  id: string;
+  tagNumber: string;
+  name: string | null;
+  farm: string | null;
+}
+
 interface SessionHistory {
   id: string;
   userId: string;
+  animalId: string | null;
+  animal: Pick<Animal, 'tagNumber' | 'name' | 'farm'> | null;
   startTime: string;
   endTime: string;
   duration: number;
   elapsedTime: number;
   pausedTime: number;
+  yieldLitres: number | null;
+  fatPercent: number | null;
+  snfPercent: number | null;
+  yieldNotes: string | null;
+  endReason: SessionEndReason;
   createdAt: string;
 }
 
 /**
  * Milking Session UI Component
- * - Displays timer (driven by WebSocket SESSION_TICK events)
- * - Provides Start/Pause/Resume/Stop controls
- * - Syncs music playback with session state
+ * - Displays a grid of timers, one per running session (driven by WebSocket SESSION_TICK events)
+ * - Starts new sessions per animal; each card provides its own Pause/Resume/Stop controls
+ * - Records milk yield and quality when a session is stopped
+ * - Syncs music playback with session state (plays while any session is running)
  * - Disables invalid actions based on current state
- * - Displays session history
+ * - Displays session history, with a pause/resume timeline per session
  */
 export default function MilkingSession() {
   const {
     isConnected,
-    sessionState,
+    protocolError,
+    deviceId,
+    authToken,
+    currentUser,
+    logout,
+    sessions,
     startSession,
     pauseSession,
     resumeSession,
     stopSession,
+    dismissSession,
   } = useWebSocket();
 
-  const [userId, setUserId] = useState(DEFAULT_USER_ID);
+  const userId = currentUser?.id ?? null;
+  const [animalId, setAnimalId] = useState('');
+  const [startError, setStartError] = useState<string | null>(null);
+  const [animals, setAnimals] = useState<Animal[]>([]);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [isMusicPlaying, setIsMusicPlaying] = useState(false);
   const [sessionHistory, setSessionHistory] = useState<SessionHistory[]>([]);
+  // Cursor of the next history page (null when every page is loaded) and total matching sessions
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [isLoadingMoreHistory, setIsLoadingMoreHistory] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [historyError, setHistoryError] = useState<string | null>(null);
+  // History entry whose timeline is shown
+  const [timelineSessionId, setTimelineSessionId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState('csv');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Sessions that are still running (active or paused)
+  const runningSessions = sessions.filter((s) => s.status === 'active' || s.status === 'paused');
+  const stoppedCount = sessions.filter((s) => s.status === 'stopped').length;
+
+  // Overall state used for music and the cow animation
+  const overallStatus =
+    sessions.some((s) => s.status === 'active') ? 'active' :
+    sessions.some((s) => s.status === 'paused') ? 'paused' : 'idle';
   
   // Music files configuration
   const musicFiles = [
@@ -115,7 +170,7 @@ export default function MilkingSession() {
     }
     
     // If session is active, start new music
-    if (sessionState.status === 'active') {
+    if (overallStatus === 'active') {
       setTimeout(async () => {
         const musicPath = musicFiles.find(m => m.id === musicId)?.path || musicFiles[0].path;
         const newAudio = new Audio(musicPath);
@@ -153,7 +208,7 @@ export default function MilkingSession() {
     const audio = audioRef.current;
     if (!audio) return;
 
-    if (sessionState.status === 'active' && !isMusicPlaying) {
+    if (overallStatus === 'active' && !isMusicPlaying) {
       // Wait for audio to be ready before playing
       const playAudio = async () => {
         try {
@@ -190,43 +245,20 @@ export default function MilkingSession() {
       };
       
       playAudio();
-    } else if (sessionState.status === 'paused' && isMusicPlaying) {
+    } else if (overallStatus === 'paused' && isMusicPlaying) {
       audio.pause();
       setIsMusicPlaying(false);
-    } else if (sessionState.status === 'stopped' && isMusicPlaying) {
-      audio.pause();
-      audio.currentTime = 0;
-      setIsMusicPlaying(false);
-    } else if (sessionState.status === 'idle' && isMusicPlaying) {
+    } else if (overallStatus === 'idle' && isMusicPlaying) {
       audio.pause();
       audio.currentTime = 0;
       setIsMusicPlaying(false);
     }
-  }, [sessionState.status, isMusicPlaying]);
-
-  // Format time display (MM:SS)
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  // Format date and time
-  const formatDateTime = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
+  }, [overallStatus, isMusicPlaying]);
 
   // Fetch session history from API
   const fetchSessionHistory = useCallback(async () => {
-    if (!userId) {
-      setHistoryError('User ID is required');
+    if (!authToken) {
+      setHistoryError('Please sign in to view history');
       setIsLoadingHistory(false);
       return;
     }
@@ -235,7 +267,7 @@ export default function MilkingSession() {
     setHistoryError(null);
     
     try {
-      const url = `${API_BASE_URL}/sessions?userId=${encodeURIComponent(userId)}`;
+      const url = `${API_BASE_URL}/sessions?limit=${HISTORY_PAGE_SIZE}`;
       console.log('Fetching session history from:', url);
       
       // Add timeout to prevent hanging
@@ -246,6 +278,7 @@ export default function MilkingSession() {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${authToken}`,
         },
         signal: controller.signal,
       });
@@ -258,6 +291,8 @@ export default function MilkingSession() {
         console.log('Session history data:', data);
         const sessions = data.sessions || [];
         setSessionHistory(sessions);
+        setHistoryCursor(data.pageInfo?.nextCursor ?? null);
+        setHistoryTotal(data.total ?? sessions.length);
         
         if (sessions.length === 0) {
           setHistoryError(null); // No error, just no data
@@ -268,6 +303,7 @@ export default function MilkingSession() {
         console.error('Failed to fetch session history:', response.status, errorMessage);
         setHistoryError(`Failed to load history: ${errorMessage}`);
         setSessionHistory([]);
+        setHistoryCursor(null);
       }
     } catch (error) {
       console.error('Error fetching session history:', error);
@@ -283,53 +319,129 @@ export default function MilkingSession() {
       
       setHistoryError(errorMessage);
       setSessionHistory([]);
+      setHistoryCursor(null);
     } finally {
       setIsLoadingHistory(false);
     }
-  }, [userId]);
+  }, [authToken]);
+
+  // Fetch the next page of history and append it
+  const loadMoreHistory = useCallback(async () => {
+    if (!authToken || !historyCursor) {
+      return;
+    }
+
+    setIsLoadingMoreHistory(true);
+    try {
+      const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE), cursor: historyCursor });
+      const response = await fetch(`${API_BASE_URL}/sessions?${params}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Server error (${response.status})`);
+      }
+      setSessionHistory((prev) => [...prev, ...(data.sessions || [])]);
+      setHistoryCursor(data.pageInfo?.nextCursor ?? null);
+      setHistoryTotal(data.total ?? 0);
+    } catch (error) {
+      console.error('Error loading more session history:', error);
+      setHistoryError(error instanceof Error ? `Failed to load history: ${error.message}` : 'Failed to load history');
+    } finally {
+      setIsLoadingMoreHistory(false);
+    }
+  }, [authToken, historyCursor]);
+
+  // Download the whole history as a file in the selected format
+  const exportHistory = useCallback(async () => {
+    if (!authToken) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({ format: exportFormat });
+      const response = await fetch(`${API_BASE_URL}/sessions/export?${params}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Server error (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `milking-sessions-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting session history:', error);
+      setHistoryError(error instanceof Error ? `Failed to export history: ${error.message}` : 'Failed to export history');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [authToken, exportFormat]);
 
-  // Fetch history on mount and when userId changes
+  // Fetch the herd so the animal input can suggest known animals
   useEffect(() => {
-    if (userId) {
+    const fetchAnimals = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/animals`);
+        if (response.ok) {
+          const data = await response.json();
+          setAnimals(data.animals || []);
+        }
+      } catch (error) {
+        console.error('Error fetching animals:', error);
+      }
+    };
+    fetchAnimals();
+  }, []);
+
+  // Format animal label for display
+  const formatAnimal = (animal: Pick<Animal, 'tagNumber' | 'name'>): string => {
+    return animal.name ? `${animal.tagNumber} (${animal.name})` : animal.tagNumber;
+  };
+
+  // Fetch history on sign-in and when the signed-in user changes
+  useEffect(() => {
+    if (authToken) {
       fetchSessionHistory();
     }
-  }, [userId, fetchSessionHistory]);
+  }, [authToken, fetchSessionHistory]);
 
-  // Fetch history when session stops
+  // Fetch history whenever another session stops
   useEffect(() => {
-    if (sessionState.status === 'stopped') {
+    if (stoppedCount > 0) {
       // Small delay to ensure backend has persisted the session
       const timeoutId = setTimeout(() => {
         fetchSessionHistory();
       }, 500);
       return () => clearTimeout(timeoutId);
     }
-  }, [sessionState.status, fetchSessionHistory]);
+  }, [stoppedCount, fetchSessionHistory]);
 
   // Button handlers
+  // The animal stays selected if the session could not be started
   const handleStart = () => {
-    if (userId) {
-      startSession(userId);
+    if (animalId) {
+      setStartError(null);
+      startSession(animalId)
+        .then(() => setAnimalId(''))
+        .catch((error: Error) => setStartError(error.message));
     }
   };
 
-  const handlePause = () => {
-    if (userId) {
-      pauseSession(userId);
-    }
-  };
+  // Session cards show the errors of their own commands
+  const handlePause = (sessionId: string) => pauseSession(sessionId);
 
-  const handleResume = () => {
-    if (userId) {
-      resumeSession(userId);
-    }
-  };
+  const handleResume = (sessionId: string) => resumeSession(sessionId);
 
-  const handleStop = () => {
-    if (userId) {
-      stopSession(userId);
-    }
-  };
+  const handleStop = (sessionId: string, milkYield?: MilkYield) => stopSession(sessionId, milkYield);
 
   const handleToggleHistory = () => {
     setShowHistory(!showHistory);
@@ -338,16 +450,37 @@ export default function MilkingSession() {
     }
   };
 
-  // Determine which buttons should be enabled
-  const canStart = sessionState.status === 'idle' || sessionState.status === 'stopped';
-  const canPause = sessionState.status === 'active';
-  const canResume = sessionState.status === 'paused';
-  const canStop = sessionState.status === 'active' || sessionState.status === 'paused';
+  // Determine which actions should be enabled
+  const animalInUse = runningSessions.some((session) => session.animalId === animalId);
+  const canStart = !!animalId && !animalInUse;
+  const canLogout = runningSessions.length === 0;
+
+  // Look up a display label for an animal ID
+  const getAnimalLabel = (id: string): string => {
+    const animal = animals.find((a) => a.id === id);
+    return animal ? formatAnimal(animal) : id;
+  };
 
   // Determine cow animation state
   const cowAnimationClass = 
-    sessionState.status === 'active' ? styles.active :
-    sessionState.status === 'paused' ? styles.paused : '';
+    overallStatus === 'active' ? styles.active :
+    overallStatus === 'paused' ? styles.paused : '';
+
+  if (!userId) {
+    return (
+      <div className={styles.container}>
+        <GrassDecoration />
+        <div className={styles.header}>
+          <div className={styles.cowContainer}>
+            <CowIcon size={100} animated={false} />
+          </div>
+          <h1>🐄 Milking Session</h1>
+          <p className={styles.headerSubtitle}>Sign in to track your milking sessions</p>
+        </div>
+        <LoginForm />
+      </div>
+    );
+  }
 
   return (
     <div className={styles.container}>
@@ -383,7 +516,7 @@ export default function MilkingSession() {
               </div>
             ) : sessionHistory.length === 0 ? (
               <div className={styles.emptyHistory}>
-                <p>No session history found for user: <strong>{userId}</strong></p>
+                <p>No session history found for user: <strong>{currentUser?.username}</strong></p>
                 <p className={styles.emptyHint}>Complete a milking session to see it here!</p>
               </div>
             ) : (
@@ -399,6 +532,12 @@ export default function MilkingSession() {
                       </span>
                     </div>
                     <div className={styles.historyItemDetails}>
+                      {session.animal && (
+                        <div className={styles.historyDetail}>
+                          <span className={styles.historyLabel}>Animal:</span>
+                          <span>{formatAnimal(session.animal)}</span>
+                        </div>
+                      )}
                       <div className={styles.historyDetail}>
                         <span className={styles.historyLabel}>Duration:</span>
                         <span>{formatTime(session.duration)}</span>
@@ -409,18 +548,78 @@ export default function MilkingSession() {
                           <span>{formatTime(session.pausedTime)}</span>
                         </div>
                       )}
+                      {session.yieldLitres !== null && (
+                        <div className={styles.historyDetail}>
+                          <span className={styles.historyLabel}>Yield:</span>
+                          <span>{formatYield(session.yieldLitres, session.fatPercent, session.snfPercent)}</span>
+                        </div>
+                      )}
+                      {session.yieldNotes && (
+                        <div className={styles.historyDetail}>
+                          <span className={styles.historyLabel}>Notes:</span>
+                          <span>{session.yieldNotes}</span>
+                        </div>
+                      )}
                       <div className={styles.historyDetail}>
                         <span className={styles.historyLabel}>Ended:</span>
-                        <span>{formatDateTime(session.endTime)}</span>
+                        <span>
+                          {formatDateTime(session.endTime)}
+                          {session.endReason === 'expired' && ' (expired after inactivity)'}
+                          {session.endReason === 'max_duration' && ' (stopped at maximum duration)'}
+                        </span>
                       </div>
                     </div>
+                    <button
+                      onClick={() => setTimelineSessionId(timelineSessionId === session.id ? null : session.id)}
+                      className={styles.linkButton}
+                      aria-expanded={timelineSessionId === session.id}
+                    >
+                      {timelineSessionId === session.id ? 'Hide timeline' : 'Show timeline'}
+                    </button>
+                    {timelineSessionId === session.id && authToken && (
+                      <SessionTimeline sessionId={session.id} authToken={authToken} />
+                    )}
                   </div>
                 ))}
+                <div className={styles.historyPager}>
+                  <span>Showing {sessionHistory.length} of {historyTotal}</span>
+                  {historyCursor && (
+                    <button
+                      onClick={loadMoreHistory}
+                      disabled={isLoadingMoreHistory}
+                      className={styles.linkButton}
+                    >
+                      {isLoadingMoreHistory ? 'Loading...' : 'Load more'}
+                    </button>
+                  )}
+                </div>
               </div>
             )}
           </div>
           
           <div className={styles.sidePanelFooter}>
+            <div className={styles.exportControls}>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value)}
+                className={styles.exportSelect}
+                aria-label="Export format"
+              >
+                {EXPORT_FORMATS.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={exportHistory}
+                disabled={isExporting || historyTotal === 0}
+                className={styles.refreshButton}
+                title="Download session history"
+              >
+                {isExporting ? 'Exporting...' : '⬇️ Export'}
+              </button>
+            </div>
             <button
               onClick={fetchSessionHistory}
               disabled={isLoadingHistory}
@@ -445,7 +644,7 @@ export default function MilkingSession() {
       
       <div className={styles.header}>
         <div className={`${styles.cowContainer} ${cowAnimationClass}`}>
-          <CowIcon size={100} animated={sessionState.status === 'active'} />
+          <CowIcon size={100} animated={overallStatus === 'active'} />
         </div>
         <h1>🐄 Milking Session</h1>
         <p className={styles.headerSubtitle}>Track your milking sessions with precision</p>
@@ -454,67 +653,89 @@ export default function MilkingSession() {
             {isConnected ? '● Connected' : '○ Disconnected'}
           </span>
         </div>
+        {protocolError && (
+          <div className={styles.updateNotice} role="alert">
+            <span>{protocolError}</span>
+            <button onClick={() => window.location.reload()} className={styles.retryButton}>
+              Reload
+            </button>
+          </div>
+        )}
       </div>
 
       <div className={styles.userInput}>
-        <label htmlFor="userId">User ID:</label>
+        <div className={styles.signedInAs}>
+          <span>
+            Signed in as <strong>{currentUser?.name || currentUser?.username}</strong>
+          </span>
+          <button
+            onClick={logout}
+            disabled={!canLogout}
+            className={styles.logoutButton}
+            title={canLogout ? 'Log out' : 'Stop all running sessions before logging out'}
+          >
+            Log out
+          </button>
+        </div>
+        <label htmlFor="animalId">Animal ID:</label>
         <input
-          id="userId"
+          id="animalId"
           type="text"
-          value={userId}
-          onChange={(e) => setUserId(e.target.value)}
-          disabled={sessionState.status !== 'idle' && sessionState.status !== 'stopped'}
+          list="animalOptions"
+          value={animalId}
+          onChange={(e) => setAnimalId(e.target.value)}
+          placeholder="Select or enter an animal"
         />
+        <datalist id="animalOptions">
+          {animals.map((animal) => (
+            <option key={animal.id} value={animal.id}>
+              {formatAnimal(animal)}
+            </option>
+          ))}
+        </datalist>
       </div>
 
-      {/* Big Timer Display */}
-      <div className={styles.timerContainer}>
-        <div className={styles.timer}>
-          {formatTime(sessionState.elapsedTime)}
-        </div>
-        <div className={styles.timerLabel}>
-          {sessionState.status === 'active' && 'Running'}
-          {sessionState.status === 'paused' && 'Paused'}
-          {sessionState.status === 'stopped' && 'Stopped'}
-          {sessionState.status === 'idle' && 'Ready'}
-        </div>
-      </div>
-
-      {/* Control Buttons */}
+      {/* Start a new session for the selected animal */}
       <div className={styles.controls}>
         <button
           onClick={handleStart}
           disabled={!canStart || !isConnected}
-          className={styles.button}
+          className={`${styles.button} ${styles.startButton}`}
           aria-label="Start session"
+          title={animalInUse ? 'This animal already has a running session' : undefined}
         >
           Start
         </button>
-        <button
-          onClick={handlePause}
-          disabled={!canPause || !isConnected}
-          className={styles.button}
-          aria-label="Pause session"
-        >
-          Pause
-        </button>
-        <button
-          onClick={handleResume}
-          disabled={!canResume || !isConnected}
-          className={styles.button}
-          aria-label="Resume session"
-        >
-          Resume
-        </button>
-        <button
-          onClick={handleStop}
-          disabled={!canStop || !isConnected}
-          className={`${styles.button} ${styles.stopButton}`}
-          aria-label="Stop session"
-        >
-          Stop
-        </button>
       </div>
+      {startError && (
+        <p className={styles.commandError} role="alert">
+          {startError}
+        </p>
+      )}
+
+      {/* Multi-timer grid: one card per session */}
+      {sessions.length === 0 ? (
+        <div className={styles.timerContainer}>
+          <div className={styles.timer}>{formatTime(0)}</div>
+          <div className={styles.timerLabel}>Ready</div>
+        </div>
+      ) : (
+        <div className={styles.sessionGrid}>
+          {sessions.map((session) => (
+            <SessionCard
+              key={session.sessionId}
+              session={session}
+              animalLabel={getAnimalLabel(session.animalId)}
+              isConnected={isConnected}
+              currentDeviceId={deviceId}
+              onPause={handlePause}
+              onResume={handleResume}
+              onStop={handleStop}
+              onDismiss={dismissSession}
+            />
+          ))}
+        </div>
+      )}
 
       {/* Music Selection and Status */}
       <div className={styles.musicSection}>
@@ -527,7 +748,7 @@ export default function MilkingSession() {
             value={selectedMusic}
             onChange={(e) => handleMusicChange(e.target.value)}
             className={styles.musicSelect}
-            disabled={sessionState.status === 'active'}
+            disabled={overallStatus === 'active'}
           >
             {musicFiles.map((music) => (
               <option key={music.id} value={music.id}>
@@ -0,0 +1,228 @@
+'use client';
+
+import { useState } from 'react';
+import { MilkYield, SessionState } from '../types/socket-events';
+import { formatLastAction, formatTime, formatYield } from '../utils/formatters';
+import styles from './SessionCard.module.css';
+
+interface SessionCardProps {
+  session: SessionState;
+  animalLabel: string;
+  isConnected: boolean;
+  currentDeviceId: string | null;
+  onPause: (sessionId: string) => Promise<unknown>;
+  onResume: (sessionId: string) => Promise<unknown>;
+  onStop: (sessionId: string, milkYield?: MilkYield) => Promise<unknown>;
+  onDismiss: (sessionId: string) => void;
+}
+
+/**
+ * Timer card for a single milking session in the multi-timer grid
+ * - Shows the animal, elapsed time and status
+ * - Provides Pause/Resume/Stop controls for this session only
+ * - Opens a yield entry form when Stop is pressed
+ * - Shows why a command was rejected by the server
+ * - Shows which device issued the latest action (the user may have several open)
+ */
+export default function SessionCard({
+  session,
+  animalLabel,
+  isConnected,
+  currentDeviceId,
+  onPause,
+  onResume,
+  onStop,
+  onDismiss,
+}: SessionCardProps) {
+  const [showYieldForm, setShowYieldForm] = useState(false);
+  const [yieldLitres, setYieldLitres] = useState('');
+  const [fatPercent, setFatPercent] = useState('');
+  const [snfPercent, setSnfPercent] = useState('');
+  const [yieldNotes, setYieldNotes] = useState('');
+  const [yieldError, setYieldError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const lastAction = formatLastAction(session.lastAction, currentDeviceId);
+
+  const canPause = session.status === 'active';
+  const canResume = session.status === 'paused';
+  const canStop = session.status === 'active' || session.status === 'paused';
+
+  const resetYieldForm = () => {
+    setShowYieldForm(false);
+    setYieldLitres('');
+    setFatPercent('');
+    setSnfPercent('');
+    setYieldNotes('');
+    setYieldError(null);
+  };
+
+  const runAction = (action: Promise<unknown>) => {
+    setActionError(null);
+    action.catch((error: Error) => setActionError(error.message));
+  };
+
+  // Stop opens the yield form; the session is stopped once the form is submitted or skipped
+  const handleStop = () => {
+    setYieldError(null);
+    setActionError(null);
+    setShowYieldForm(true);
+  };
+
+  // The form stays open (with the server's reason) if the stop is rejected
+  const submitStop = (milkYield?: MilkYield) => {
+    setYieldError(null);
+    onStop(session.sessionId, milkYield)
+      .then(() => resetYieldForm())
+      .catch((error: Error) => setYieldError(error.message));
+  };
+
+  const handleStopWithYield = () => {
+    const litres = parseFloat(yieldLitres);
+    if (!Number.isFinite(litres) || litres <= 0) {
+      setYieldError('Enter the milk yield in litres');
+      return;
+    }
+
+    const milkYield: MilkYield = { litres };
+    if (fatPercent) milkYield.fatPercent = parseFloat(fatPercent);
+    if (snfPercent) milkYield.snfPercent = parseFloat(snfPercent);
+    if (yieldNotes.trim()) milkYield.notes = yieldNotes.trim();
+
+    submitStop(milkYield);
+  };
+
+  const handleStopWithoutYield = () => {
+    submitStop();
+  };
+
+  const statusClass =
+    session.status === 'active' ? styles.active :
+    session.status === 'paused' ? styles.paused :
+    session.status === 'stopped' ? styles.stopped : '';
+
+  return (
+    <div className={`${styles.card} ${statusClass}`}>
+      <div className={styles.cardHeader}>
+        <span className={styles.animal} title={session.animalId}>🐄 {animalLabel}</span>
+        <span className={styles.status}>
+          {session.status === 'active' && 'Running'}
+          {session.status === 'paused' && 'Paused'}
+          {session.status === 'stopped' && (session.endReason === 'expired' ? 'Expired' : 'Stopped')}
+          {session.status === 'idle' && 'Ready'}
+        </span>
+      </div>
+
+      <div className={styles.timer}>{formatTime(session.elapsedTime)}</div>
+
+      {lastAction && <div className={styles.lastAction}>{lastAction}</div>}
+
+      {session.statusNote ? (
+        <div className={styles.endReason}>{session.statusNote}</div>
+      ) : session.status === 'stopped' && session.endReason === 'expired' && (
+        <div className={styles.endReason}>Ended automatically after a period of inactivity</div>
+      )}
+
+      {session.status === 'stopped' && session.milkYield && (
+        <div className={styles.yieldSummary}>
+          {formatYield(session.milkYield.litres, session.milkYield.fatPercent, session.milkYield.snfPercent)}
+        </div>
+      )}
+
+      {showYieldForm && canStop ? (
+        <div className={styles.yieldForm}>
+          <div className={styles.yieldFields}>
+            <label htmlFor={`yieldLitres-${session.sessionId}`}>Litres</label>
+            <input
+              id={`yieldLitres-${session.sessionId}`}
+              type="number"
+              min="0"
+              step="0.1"
+              value={yieldLitres}
+              onChange={(e) => setYieldLitres(e.target.value)}
+            />
+            <label htmlFor={`fatPercent-${session.sessionId}`}>Fat %</label>
+            <input
+              id={`fatPercent-${session.sessionId}`}
+              type="number"
+              min="0"
+              step="0.1"
+              value={fatPercent}
+              onChange={(e) => setFatPercent(e.target.value)}
+            />
+            <label htmlFor={`snfPercent-${session.sessionId}`}>SNF %</label>
+            <input
+              id={`snfPercent-${session.sessionId}`}
+              type="number"
+              min="0"
+              step="0.1"
+              value={snfPercent}
+              onChange={(e) => setSnfPercent(e.target.value)}
+            />
+            <label htmlFor={`yieldNotes-${session.sessionId}`}>Notes</label>
+            <textarea
+              id={`yieldNotes-${session.sessionId}`}
+              value={yieldNotes}
+              maxLength={500}
+              onChange={(e) => setYieldNotes(e.target.value)}
+            />
+          </div>
+          {yieldError && <p className={styles.yieldError}>{yieldError}</p>}
+          <div className={styles.actions}>
+            <button
+              onClick={handleStopWithYield}
+              disabled={!isConnected}
+              className={`${styles.button} ${styles.stopButton}`}
+            >
+              Save &amp; Stop
+            </button>
+            <button onClick={handleStopWithoutYield} disabled={!isConnected} className={styles.button}>
+              Stop without yield
+            </button>
+            <button onClick={resetYieldForm} className={styles.button}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : session.status === 'stopped' ? (
+        <div className={styles.actions}>
+          <button onClick={() => onDismiss(session.sessionId)} className={styles.button}>
+            Dismiss
+          </button>
+        </div>
+      ) : (
+        <div className={styles.actions}>
+          {canResume ? (
+            <button
+              onClick={() => runAction(onResume(session.sessionId))}
+              disabled={!isConnected}
+              className={styles.button}
+              aria-label={`Resume session for ${animalLabel}`}
+            >
+              Resume
+            </button>
+          ) : (
+            <button
+              onClick={() => runAction(onPause(session.sessionId))}
+              disabled={!canPause || !isConnected}
+              className={styles.button}
+              aria-label={`Pause session for ${animalLabel}`}
+            >
+              Pause
+            </button>
+          )}
+          <button
+            onClick={handleStop}
+            disabled={!canStop || !isConnected}
+            className={`${styles.button} ${styles.stopButton}`}
+            aria-label={`Stop session for ${animalLabel}`}
+          >
+            Stop
+          </button>
+        </div>
+      )}
+
+      {actionError && !showYieldForm && <p className={styles.actionError}>{actionError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatTime } from '../utils/formatters';
+import styles from './SessionTimeline.module.css';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+interface TimelineSegment {
+  state: 'active' | 'paused';
+  start: string;
+  end: string;
+  duration: number;
+  device: string | null;
+  reason: string | null;
+}
+
+interface TimelineResponse {
+  sessionId: string;
+  status: 'active' | 'paused' | 'completed';
+  startTime: string;
+  endTime: string | null;
+  segments: TimelineSegment[];
+}
+
+interface SessionTimelineProps {
+  sessionId: string;
+  authToken: string;
+}
+
+/**
+ * Describe who caused a segment, for its tooltip
+ */
+const describeSource = (segment: TimelineSegment): string => {
+  if (segment.state === 'paused' && segment.reason === 'inactivity') {
+    return 'auto-paused after inactivity';
+  }
+  return segment.device ? `from ${segment.device}` : 'by the server';
+};
+
+/**
+ * Timeline bar for one session in the history panel
+ * - Fetches the session's timeline when shown
+ * - Draws running and paused segments proportionally to their duration
+ * - Hovering a segment shows its times, duration and the device that started it
+ */
+export default function SessionTimeline({ sessionId, authToken }: SessionTimelineProps) {
+  const [timeline, setTimeline] = useState<TimelineResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTimeline = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/sessions/${encodeURIComponent(sessionId)}/timeline`, {
+          headers: { Authorization: `Bearer ${authToken}` },
+        });
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) return;
+        if (response.ok) {
+          setTimeline(data as TimelineResponse);
+        } else {
+          setError(data.error || `Server error (${response.status})`);
+        }
+      } catch (fetchError) {
+        if (!cancelled) {
+          setError('Unable to load timeline');
+        }
+      }
+    };
+
+    fetchTimeline();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, authToken]);
+
+  if (error) {
+    return <div className={styles.message}>{error}</div>;
+  }
+
+  if (!timeline) {
+    return <div className={styles.message}>Loading timeline...</div>;
+  }
+
+  if (timeline.segments.length === 0) {
+    return <div className={styles.message}>No timeline recorded for this session</div>;
+  }
+
+  const total = timeline.segments.reduce((sum, segment) => sum + segment.duration, 0);
+  const pauses = timeline.segments.filter((segment) => segment.state === 'paused');
+
+  return (
+    <div className={styles.timeline}>
+      <div className={styles.bar}>
+        {timeline.segments.map((segment) => (
+          <div
+            key={segment.start}
+            className={`${styles.segment} ${segment.state === 'paused' ? styles.paused : styles.active}`}
+            style={{ flexGrow: total > 0 ? segment.duration : 1 }}
+            title={
+              `${segment.state === 'paused' ? 'Paused' : 'Running'} ${formatTime(segment.duration)} ` +
+              `(${new Date(segment.start).toLocaleTimeString()} – ${new Date(segment.end).toLocaleTimeString()}), ` +
+              describeSource(segment)
+            }
+          />
+        ))}
+      </div>
+      <div className={styles.summary}>
+        {pauses.length === 0
+          ? 'No interruptions'
+          : `Interrupted ${pauses.length}× for ${formatTime(pauses.reduce((sum, segment) => sum + segment.duration, 0))}`}
+      </div>
+    </div>
+  );
+}
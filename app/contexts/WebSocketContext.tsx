@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 import {
   SessionState,
@@ -11,46 +11,204 @@ import {
   SessionResumedData,
   SessionStoppedData,
   SessionStateData,
+  SessionSyncResponseData,
+  SessionAutoActionData,
   ErrorData,
+  MilkYield,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  HandshakeAuth,
+  ProtocolErrorData,
+  ServerSessionStatus,
+  CommandResult,
+  SessionCommandEvent,
+  PROTOCOL_VERSION,
 } from '../types/socket-events';
+import { createClientId, getDeviceIdentity } from '../utils/device';
+
+type ProtocolSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string | null;
+}
 
 interface WebSocketContextType {
-  socket: Socket | null;
+  socket: ProtocolSocket | null;
   isConnected: boolean;
-  sessionState: SessionState;
-  startSession: (userId: string) => void;
-  pauseSession: (userId: string) => void;
-  resumeSession: (userId: string) => void;
-  stopSession: (userId: string) => void;
-  syncSession: (userId: string) => void;
+  protocolError: string | null; // Set when the server rejected this build's protocol version
+  deviceId: string | null; // This device's ID, as sent in the handshake
+  authToken: string | null;
+  currentUser: AuthUser | null;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+  sessions: SessionState[];
+  // Resolve with the server's result; reject with a CommandError
+  startSession: (animalId: string) => Promise<SessionStartedData>;
+  pauseSession: (sessionId: string) => Promise<SessionPausedData>;
+  resumeSession: (sessionId: string) => Promise<SessionResumedData>;
+  stopSession: (sessionId: string, milkYield?: MilkYield) => Promise<SessionStoppedData>;
+  syncSession: () => void;
+  dismissSession: (sessionId: string) => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
 // WebSocket server URL (defaults to localhost:3001)
 const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:3001';
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+// localStorage keys for the signed-in user
+const AUTH_TOKEN_STORAGE_KEY = 'authToken';
+const AUTH_USER_STORAGE_KEY = 'authUser';
+
+/**
+ * Map a server-side session status to the client status union
+ */
+const toClientStatus = (status: ServerSessionStatus): SessionStatus => {
+  return status === 'active' ? 'active' : status === 'paused' ? 'paused' : 'idle';
+};
+
+/**
+ * Build client session state from a server state payload
+ */
+const fromStateData = (data: SessionStateData): SessionState => ({
+  sessionId: data.sessionId,
+  status: toClientStatus(data.status),
+  elapsedTime: data.elapsedTime,
+  userId: data.userId,
+  animalId: data.animalId,
+  startTime: data.startTime,
+  milkYield: null,
+  version: data.version,
+  endReason: null,
+  statusNote: data.pauseReason === 'inactivity' ? 'Paused automatically after a period of inactivity' : null,
+  lastAction: data.lastAction,
+});
+
+/**
+ * A session command the server rejected (or never answered)
+ */
+export type CommandError = Error & Omit<ErrorData, 'message'>;
+
+const toCommandError = (error: ErrorData): CommandError => {
+  return Object.assign(new Error(error.message), {
+    code: error.code,
+    sessionId: error.sessionId,
+    details: error.details,
+  });
+};
+
+/**
+ * How long to wait for the acknowledgement of a command, and how often to send it
+ * A command that is not acknowledged in time (e.g. the connection dropped) is
+ * sent again with the same request ID, which the server answers without acting twice
+ */
+const COMMAND_ACK_TIMEOUT_MS = 10000;
+const COMMAND_ATTEMPTS = 3;
+
+/**
+ * Reject if an acknowledgement does not arrive in time
+ * (socket.timeout() would do this, but its emitWithAck loses the result type)
+ */
+const withAckTimeout = <T,>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No acknowledgement after ${timeoutMs}ms`)), timeoutMs);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * How often the client reports user activity (heartbeat) to the server
+ * Only sent if the user interacted with the page since the last heartbeat
+ */
+const HEARTBEAT_INTERVAL_MS = 30000;
 
 /**
  * WebSocket context provider
- * Manages Socket.IO connection, session state, and provides session control functions
+ * Manages login, the authenticated Socket.IO connection, the state of every
+ * session the user is running, and provides session control functions
  */
 export function WebSocketProvider({ children }: { children: React.ReactNode }) {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<ProtocolSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [sessionState, setSessionState] = useState<SessionState>({
-    status: 'idle',
-    elapsedTime: 0,
-    userId: null,
-    startTime: null,
-  });
-  const reconnectAttempted = useRef(false);
+  const [protocolError, setProtocolError] = useState<string | null>(null);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [authToken, setAuthToken] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  // Sessions keyed by sessionId
+  const [sessionMap, setSessionMap] = useState<Record<string, SessionState>>({});
 
-  // Initialize socket connection
+  // Apply a partial update to a known session
+  const updateSession = useCallback((sessionId: string, update: Partial<SessionState>) => {
+    setSessionMap((prev) => {
+      const existing = prev[sessionId];
+      if (!existing) {
+        return prev;
+      }
+      return { ...prev, [sessionId]: { ...existing, ...update } };
+    });
+  }, []);
+
+  // Restore a previous login
+  useEffect(() => {
+    const storedToken = localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+    const storedUser = localStorage.getItem(AUTH_USER_STORAGE_KEY);
+    if (storedToken && storedUser) {
+      try {
+        setCurrentUser(JSON.parse(storedUser) as AuthUser);
+        setAuthToken(storedToken);
+      } catch (error) {
+        localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+        localStorage.removeItem(AUTH_USER_STORAGE_KEY);
+      }
+    }
+  }, []);
+
+  const logout = useCallback(() => {
+    localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    localStorage.removeItem(AUTH_USER_STORAGE_KEY);
+    setAuthToken(null);
+    setCurrentUser(null);
+    setSessionMap({});
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Login failed (${response.status})`);
+    }
+
+    localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, data.token);
+    localStorage.setItem(AUTH_USER_STORAGE_KEY, JSON.stringify(data.user));
+    setCurrentUser(data.user);
+    setAuthToken(data.token);
+  }, []);
+
+  // Initialize socket connection once signed in
   useEffect(() => {
-    const userId = localStorage.getItem('userId') || 'user123'; // Default userId for demo
-    
-    const newSocket = io(WS_URL, {
-      query: { userId },
+    if (!authToken) {
+      return;
+    }
+
+    const device = getDeviceIdentity();
+    setDeviceId(device.deviceId);
+
+    const auth: HandshakeAuth = { token: authToken, protocolVersion: PROTOCOL_VERSION, ...device };
+    const newSocket: ProtocolSocket = io(WS_URL, {
+      auth,
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionDelay: 1000,
@@ -62,11 +220,21 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
     newSocket.on('connect', () => {
       console.log('WebSocket connected:', newSocket.id);
       setIsConnected(true);
-      reconnectAttempted.current = false;
-      
+      setProtocolError(null);
+
       // Auto-sync on connect/reconnect
-      if (userId) {
-        newSocket.emit('SESSION_SYNC', { userId });
+      newSocket.emit('SESSION_SYNC', {});
+    });
+
+    // Handshake rejected (expired or invalid token, or unsupported protocol version)
+    // Rejected handshakes are not retried automatically
+    newSocket.on('connect_error', (error) => {
+      console.error('WebSocket connection error:', error.message);
+      if (error.message === 'UNAUTHORIZED') {
+        logout();
+      } else if (error.message === 'PROTOCOL_OUTDATED' || error.message === 'PROTOCOL_UNSUPPORTED') {
+        const data = (error as Error & { data?: ProtocolErrorData }).data;
+        setProtocolError(data?.message ?? 'This version of the app cannot connect to the server. Please reload the page.');
       }
     });
 
@@ -76,73 +244,121 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
       setIsConnected(false);
     });
 
-    // Reconnection event
-    newSocket.on('reconnect', (attemptNumber) => {
+    // Reconnection event (emitted by the manager, not the socket)
+    // The connect handler above runs again afterwards and re-syncs sessions
+    newSocket.io.on('reconnect', (attemptNumber) => {
       console.log('WebSocket reconnected after', attemptNumber, 'attempts');
-      setIsConnected(true);
-      
-      // Emit SESSION_SYNC on reconnect
-      if (userId && !reconnectAttempted.current) {
-        reconnectAttempted.current = true;
-        newSocket.emit('SESSION_SYNC', { userId });
-      }
     });
 
     // Session events
     newSocket.on('SESSION_STARTED', (data: SessionStartedData) => {
       console.log('Session started:', data);
-      setSessionState({
-        status: 'active',
-        elapsedTime: data.elapsedTime,
-        userId: data.userId,
-        startTime: data.startTime,
-      });
+      setSessionMap((prev) => ({
+        ...prev,
+        [data.sessionId]: {
+          sessionId: data.sessionId,
+          status: 'active',
+          elapsedTime: data.elapsedTime,
+          userId: data.userId,
+          animalId: data.animalId,
+          startTime: data.startTime,
+          milkYield: null,
+          version: data.version,
+          endReason: null,
+          statusNote: null,
+          lastAction: { type: 'start', at: data.startTime, performedBy: data.performedBy },
+        },
+      }));
     });
 
     newSocket.on('SESSION_TICK', (data: SessionTickData) => {
       // Update elapsed time from server (only source of truth)
-      setSessionState((prev) => ({
-        ...prev,
-        elapsedTime: data.elapsedTime,
-        status: data.status === 'active' ? 'active' : prev.status,
-      }));
+      setSessionMap((prev) => {
+        const existing = prev[data.sessionId];
+        if (!existing) {
+          return prev;
+        }
+        return {
+          ...prev,
+          [data.sessionId]: {
+            ...existing,
+            elapsedTime: data.elapsedTime,
+            status: data.status === 'active' ? 'active' : existing.status,
+          },
+        };
+      });
     });
 
     newSocket.on('SESSION_PAUSED', (data: SessionPausedData) => {
       console.log('Session paused:', data);
-      setSessionState((prev) => ({
-        ...prev,
+      updateSession(data.sessionId, {
         status: 'paused',
         elapsedTime: data.elapsedTime,
-      }));
+        version: data.version,
+        statusNote: null,
+        lastAction: { type: 'pause', at: Date.now(), performedBy: data.performedBy },
+      });
     });
 
     newSocket.on('SESSION_RESUMED', (data: SessionResumedData) => {
       console.log('Session resumed:', data);
-      setSessionState((prev) => ({
-        ...prev,
+      updateSession(data.sessionId, {
         status: 'active',
         elapsedTime: data.elapsedTime,
-      }));
+        version: data.version,
+        statusNote: null,
+        lastAction: { type: 'resume', at: Date.now(), performedBy: data.performedBy },
+      });
     });
 
     newSocket.on('SESSION_STOPPED', (data: SessionStoppedData) => {
       console.log('Session stopped:', data);
-      setSessionState({
-        status: 'stopped',
-        elapsedTime: data.totalElapsedTime,
-        userId: data.userId,
-        startTime: null,
-      });
+      setSessionMap((prev) => ({
+        ...prev,
+        [data.sessionId]: {
+          sessionId: data.sessionId,
+          status: 'stopped',
+          elapsedTime: data.totalElapsedTime,
+          userId: data.userId,
+          animalId: data.animalId,
+          startTime: null,
+          milkYield: data.milkYield,
+          version: null,
+          endReason: data.endReason,
+          statusNote: null,
+          lastAction: { type: 'stop', at: Date.now(), performedBy: data.performedBy },
+        },
+      }));
+    });
+
+    // Sent after the server paused or stopped a session on its own (session policy)
+    newSocket.on('SESSION_AUTO_ACTION', (data: SessionAutoActionData) => {
+      console.log('Session auto action:', data);
+      updateSession(data.sessionId, { statusNote: data.message });
     });
 
     newSocket.on('SESSION_STATE', (data: SessionStateData) => {
       console.log('Session state received:', data);
-      setSessionState({
-        status: data.status === 'active' ? 'active' : data.status === 'paused' ? 'paused' : 'idle',
-        elapsedTime: data.elapsedTime,
-        userId: data.userId,
-        startTime: data.startTime,
+      setSessionMap((prev) => ({
+        ...prev,
+        [data.sessionId]: fromStateData(data),
+      }));
+    });
+
+    newSocket.on('SESSION_SYNC', (data: SessionSyncResponseData) => {
+      console.log('Sessions synced:', data);
+      setSessionMap((prev) => {
+        // Keep locally stopped sessions until dismissed, replace everything else
+        const next: Record<string, SessionState> = {};
+        Object.values(prev)
+          .filter((session) => session.status === 'stopped')
+          .forEach((session) => {
+            next[session.sessionId] = session;
+          });
+        data.sessions.forEach((session) => {
+          next[session.sessionId] = fromStateData(session);
+        });
+        return next;
       });
     });
 
@@ -153,55 +369,145 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
 
     setSocket(newSocket);
 
-    // Cleanup on unmount
+    // Cleanup on unmount or logout
     return () => {
       newSocket.close();
+      setSocket(null);
+      setIsConnected(false);
     };
-  }, []);
+  }, [authToken, updateSession, logout]);
 
-  // Session control functions
-  const startSession = useCallback((userId: string) => {
-    if (socket && isConnected) {
-      socket.emit('SESSION_START', { userId });
-      localStorage.setItem('userId', userId);
+  // Report user activity so the server does not auto-pause sessions that are being worked on
+  useEffect(() => {
+    if (!socket || !isConnected) {
+      return;
     }
-  }, [socket, isConnected]);
 
-  const pauseSession = useCallback((userId: string) => {
-    if (socket && isConnected) {
-      socket.emit('SESSION_PAUSE', { userId });
-    }
+    let interacted = false;
+    const markInteraction = () => {
+      if (document.visibilityState === 'visible') {
+        interacted = true;
+      }
+    };
+    const activityEvents = ['pointerdown', 'keydown', 'touchstart', 'visibilitychange'];
+    activityEvents.forEach((event) => document.addEventListener(event, markInteraction, { passive: true }));
+
+    const heartbeatTimer = setInterval(() => {
+      if (interacted) {
+        interacted = false;
+        socket.emit('HEARTBEAT');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(heartbeatTimer);
+      activityEvents.forEach((event) => document.removeEventListener(event, markInteraction));
+    };
   }, [socket, isConnected]);
 
-  const resumeSession = useCallback((userId: string) => {
-    if (socket && isConnected) {
-      socket.emit('SESSION_RESUME', { userId });
+  // Send a session command and wait for its acknowledgement
+  // emit sends the command on the given socket; it is called once per attempt,
+  // and every attempt carries the same request ID, so a retry never acts twice
+  const sendCommand = useCallback(async <T,>(
+    event: SessionCommandEvent,
+    emit: (commandSocket: ProtocolSocket, requestId: string) => Promise<CommandResult<T>>
+  ): Promise<T> => {
+    if (!socket || !isConnected) {
+      throw toCommandError({ message: 'Not connected to the server', code: 'NOT_CONNECTED' });
     }
-  }, [socket, isConnected]);
 
-  const stopSession = useCallback((userId: string) => {
-    if (socket && isConnected) {
-      socket.emit('SESSION_STOP', { userId });
+    const requestId = createClientId();
+    for (let attempt = 1; attempt <= COMMAND_ATTEMPTS; attempt++) {
+      let result: CommandResult<T>;
+      try {
+        result = await withAckTimeout(emit(socket, requestId), COMMAND_ACK_TIMEOUT_MS);
+      } catch (error) {
+        console.warn(`${event} not acknowledged (attempt ${attempt} of ${COMMAND_ATTEMPTS})`);
+        continue;
+      }
+
+      if (result.ok) {
+        return result.data;
+      }
+      if (result.error.code !== 'COMMAND_IN_PROGRESS') {
+        throw toCommandError(result.error);
+      }
     }
+
+    throw toCommandError({ message: 'The server did not respond, please try again', code: 'COMMAND_TIMEOUT' });
   }, [socket, isConnected]);
 
-  const syncSession = useCallback((userId: string) => {
+  // Session control functions
+  // The acting user comes from the auth token, so payloads carry no userId
+  // Pause/resume/stop send the version last seen; the server rejects stale ones
+  // with SESSION_CONFLICT and sends the current state
+  const getSessionVersion = useCallback((sessionId: string) => {
+    return sessionMap[sessionId]?.version ?? undefined;
+  }, [sessionMap]);
+
+  const startSession = useCallback((animalId: string) => {
+    return sendCommand('SESSION_START', (commandSocket, requestId) =>
+      commandSocket.emitWithAck('SESSION_START', { requestId, animalId })
+    );
+  }, [sendCommand]);
+
+  const pauseSession = useCallback((sessionId: string) => {
+    const version = getSessionVersion(sessionId);
+    return sendCommand('SESSION_PAUSE', (commandSocket, requestId) =>
+      commandSocket.emitWithAck('SESSION_PAUSE', { requestId, sessionId, version })
+    );
+  }, [sendCommand, getSessionVersion]);
+
+  const resumeSession = useCallback((sessionId: string) => {
+    const version = getSessionVersion(sessionId);
+    return sendCommand('SESSION_RESUME', (commandSocket, requestId) =>
+      commandSocket.emitWithAck('SESSION_RESUME', { requestId, sessionId, version })
+    );
+  }, [sendCommand, getSessionVersion]);
+
+  const stopSession = useCallback((sessionId: string, milkYield?: MilkYield) => {
+    const version = getSessionVersion(sessionId);
+    return sendCommand('SESSION_STOP', (commandSocket, requestId) =>
+      commandSocket.emitWithAck('SESSION_STOP', { requestId, sessionId, milkYield, version })
+    );
+  }, [sendCommand, getSessionVersion]);
+
+  const syncSession = useCallback(() => {
     if (socket && isConnected) {
-      socket.emit('SESSION_SYNC', { userId });
+      socket.emit('SESSION_SYNC', {});
     }
   }, [socket, isConnected]);
 
+  // Remove a stopped session from the grid
+  const dismissSession = useCallback((sessionId: string) => {
+    setSessionMap((prev) => {
+      const { [sessionId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const sessions = Object.values(sessionMap).sort(
+    (a, b) => (a.startTime ?? Number.MAX_SAFE_INTEGER) - (b.startTime ?? Number.MAX_SAFE_INTEGER)
+  );
+
   return (
     <WebSocketContext.Provider
       value={{
         socket,
         isConnected,
-        sessionState,
+        protocolError,
+        deviceId,
+        authToken,
+        currentUser,
+        login,
+        logout,
+        sessions,
         startSession,
         pauseSession,
         resumeSession,
         stopSession,
         syncSession,
+        dismissSession,
       }}
     >
       {children}
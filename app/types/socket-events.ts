@@ -1,84 +1,24 @@
 /**
  * Typed event interfaces for WebSocket communication (Client-side)
+ * The protocol (events and payloads) is shared with the server; only the
+ * client's view of a session is declared here
  */
+import type { MilkYield, SessionEndReason, SessionLastAction } from '../../shared/protocol';
 
-export interface SessionStartData {
-  userId: string;
-}
-
-export interface SessionPauseData {
-  userId: string;
-}
-
-export interface SessionResumeData {
-  userId: string;
-}
-
-export interface SessionStopData {
-  userId: string;
-}
-
-export interface SessionSyncData {
-  userId: string;
-}
-
-export interface SessionStartedData {
-  userId: string;
-  startTime: number;
-  elapsedTime: number;
-}
-
-export interface SessionTickData {
-  userId: string;
-  elapsedTime: number;
-  status: string;
-}
-
-export interface SessionPausedData {
-  userId: string;
-  elapsedTime: number;
-}
-
-export interface SessionResumedData {
-  userId: string;
-  elapsedTime: number;
-}
-
-export interface SessionStoppedData {
-  userId: string;
-  totalElapsedTime: number;
-}
-
-export interface SessionSyncResponseData {
-  userId: string;
-  elapsedTime: number;
-  status: string;
-  startTime: number;
-}
-
-export interface SessionStateData {
-  userId: string;
-  elapsedTime: number;
-  status: string;
-  startTime: number;
-  lastUpdateTime: number;
-}
-
-export interface ErrorData {
-  message: string;
-  code?: string;
-}
-
-export interface ConnectedData {
-  socketId: string;
-  timestamp: number;
-}
+export * from '../../shared/protocol';
 
 export type SessionStatus = 'idle' | 'active' | 'paused' | 'stopped';
 
 export interface SessionState {
+  sessionId: string;
   status: SessionStatus;
   elapsedTime: number;
-  userId: string | null;
+  userId: string;
+  animalId: string;
   startTime: number | null;
+  milkYield: MilkYield | null;
+  version: number | null; // Server session version (null once stopped)
+  endReason: SessionEndReason | null; // Why the session ended (null until stopped)
+  statusNote: string | null; // Why the server changed the session's state on its own, if it did
+  lastAction: SessionLastAction | null; // Latest action and the device that issued it
 }
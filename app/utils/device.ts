@@ -0,0 +1,54 @@
+/**
+ * Identity of this device, sent in the socket handshake
+ * Lets the server tell the user's devices apart and report which one issued each action
+ */
+
+// localStorage keys for the device identity
+const DEVICE_ID_STORAGE_KEY = 'deviceId';
+const DEVICE_NAME_STORAGE_KEY = 'deviceName';
+
+/**
+ * Generate a random ID (request IDs, device IDs)
+ * crypto.randomUUID is only available in secure contexts (HTTPS or localhost)
+ */
+export const createClientId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * Short description of the browser, e.g. "Chrome on Android"
+ */
+const describeBrowser = (userAgent: string): string => {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' : 'Browser';
+  const platform =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone/.test(userAgent) ? 'iPhone' :
+    /iPad/.test(userAgent) ? 'iPad' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'Mac' :
+    /Linux/.test(userAgent) ? 'Linux' : null;
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+/**
+ * Get this device's ID and name
+ * The ID is generated once and kept in localStorage; the name can be set there
+ * (deviceName) and defaults to a description of the browser
+ */
+export const getDeviceIdentity = (): { deviceId: string; deviceName: string } => {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = createClientId();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+
+  const deviceName = localStorage.getItem(DEVICE_NAME_STORAGE_KEY) || describeBrowser(navigator.userAgent);
+  return { deviceId, deviceName };
+};
@@ -0,0 +1,61 @@
+/**
+ * Display formatting helpers shared by session components
+ */
+import { SessionActionType, SessionLastAction } from '../types/socket-events';
+
+/**
+ * Format time display (MM:SS)
+ */
+export const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Format date and time
+ */
+export const formatDateTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Format yield with optional quality figures
+ */
+export const formatYield = (litres: number, fat?: number | null, snf?: number | null): string => {
+  const parts = [`${litres.toFixed(1)} L`];
+  if (fat !== null && fat !== undefined) parts.push(`Fat ${fat.toFixed(1)}%`);
+  if (snf !== null && snf !== undefined) parts.push(`SNF ${snf.toFixed(1)}%`);
+  return parts.join(' · ');
+};
+
+const ACTION_LABELS: Record<SessionActionType, string> = {
+  start: 'Started',
+  pause: 'Paused',
+  resume: 'Resumed',
+  stop: 'Stopped',
+};
+
+/**
+ * Describe the latest action on a session and the device that issued it
+ * e.g. "Paused on Chrome on Android at 10:32 AM" or "Started on this device at 9:05 AM"
+ *
+ * @returns null if the server took the action on its own
+ */
+export const formatLastAction = (lastAction: SessionLastAction | null, currentDeviceId: string | null): string | null => {
+  if (!lastAction?.performedBy) {
+    return null;
+  }
+
+  const { deviceId, name } = lastAction.performedBy;
+  const device = deviceId && deviceId === currentDeviceId ? 'this device' : name || 'another device';
+  const time = new Date(lastAction.at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${ACTION_LABELS[lastAction.type]} on ${device} at ${time}`;
+};
@@ -0,0 +1,278 @@
+/**
+ * Socket.IO protocol shared by the server (src/) and the Next.js client (app/)
+ * Event names and payload types live here only, so the two sides cannot drift
+ *
+ * Bump PROTOCOL_VERSION whenever a change is not backward compatible (an event
+ * renamed or removed, a payload field removed or changed in meaning), and
+ * raise MIN_PROTOCOL_VERSION once older clients can no longer be served.
+ */
+
+/**
+ * Protocol version spoken by this build
+ * 1: first versioned protocol
+ * 2: session commands carry a requestId and are answered through acknowledgements
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Oldest client protocol version the server still accepts
+ */
+export const MIN_PROTOCOL_VERSION = 2;
+
+/**
+ * Handshake auth sent by the client: io(url, { auth })
+ */
+export interface HandshakeAuth {
+  token: string;
+  protocolVersion: number; // PROTOCOL_VERSION of the client build (missing in clients older than the check)
+  deviceId?: string; // Stable ID of the device, generated once and kept by the client
+  deviceName?: string; // Human-readable device name (default: the client's user agent)
+}
+
+/**
+ * Connect error messages of a rejected handshake
+ * PROTOCOL_OUTDATED: the client must be updated; PROTOCOL_UNSUPPORTED: the client is newer than the server
+ */
+export type HandshakeErrorCode = 'UNAUTHORIZED' | 'PROTOCOL_OUTDATED' | 'PROTOCOL_UNSUPPORTED';
+
+/**
+ * `data` of a connect error rejected for its protocol version
+ */
+export interface ProtocolErrorData {
+  message: string; // Human-readable explanation
+  clientVersion: number | null;
+  serverVersion: number;
+  minVersion: number;
+}
+
+/**
+ * Outcome of a session command, sent back through the Socket.IO acknowledgement
+ */
+export type CommandResult<T> = { ok: true; data: T } | { ok: false; error: ErrorData };
+
+/**
+ * Acknowledgement callback of a session command
+ */
+export type CommandAck<T> = (result: CommandResult<T>) => void;
+
+/**
+ * Client-to-server events
+ */
+export interface ClientToServerEvents {
+  // Session commands, answered through the acknowledgement
+  'SESSION_START': (data: SessionStartData, ack: CommandAck<SessionStartedData>) => void;
+  'SESSION_PAUSE': (data: SessionPauseData, ack: CommandAck<SessionPausedData>) => void;
+  'SESSION_RESUME': (data: SessionResumeData, ack: CommandAck<SessionResumedData>) => void;
+  'SESSION_STOP': (data: SessionStopData, ack: CommandAck<SessionStoppedData>) => void;
+
+  // Session events
+  'SESSION_SYNC': (data: SessionSyncData) => void;
+  
+  // Ping/pong for connection health
+  'ping': () => void;
+
+  // Sent periodically while the user is active (drives the auto-pause policy)
+  'HEARTBEAT': () => void;
+}
+
+/**
+ * Client events that are session commands
+ */
+export type SessionCommandEvent = 'SESSION_START' | 'SESSION_PAUSE' | 'SESSION_RESUME' | 'SESSION_STOP';
+
+/**
+ * Payload of a session command
+ */
+export type SessionCommandPayload<E extends SessionCommandEvent> = Parameters<ClientToServerEvents[E]>[0];
+
+/**
+ * Data returned by a successful session command
+ */
+export type SessionCommandData<E extends SessionCommandEvent> =
+  Parameters<ClientToServerEvents[E]>[1] extends CommandAck<infer T> ? T : never;
+
+/**
+ * Server-to-client events
+ */
+export interface ServerToClientEvents {
+  // Session events
+  'SESSION_STARTED': (data: SessionStartedData) => void;
+  'SESSION_PAUSED': (data: SessionPausedData) => void;
+  'SESSION_RESUMED': (data: SessionResumedData) => void;
+  'SESSION_STOPPED': (data: SessionStoppedData) => void;
+  'SESSION_TICK': (data: SessionTickData) => void;
+  'SESSION_SYNC': (data: SessionSyncResponseData) => void;
+  'SESSION_STATE': (data: SessionStateData) => void;
+  'SESSION_AUTO_ACTION': (data: SessionAutoActionData) => void;
+  
+  // Error events
+  'error': (data: ErrorData) => void;
+  
+  // Connection events
+  'connected': (data: ConnectedData) => void;
+  
+  // Pong response
+  'pong': () => void;
+}
+
+/**
+ * Event data types
+ */
+export interface SessionStartData {
+  requestId: string; // Client-generated; a retry with the same ID gets the first result instead of acting twice
+  userId?: string; // Ignored unless it matches the authenticated user
+  animalId: string;
+}
+
+export interface SessionPauseData {
+  requestId: string; // Client-generated; a retry with the same ID gets the first result instead of acting twice
+  userId?: string; // Ignored unless it matches the authenticated user
+  sessionId: string;
+  version?: number; // Session version the client last saw; stale versions get SESSION_CONFLICT
+}
+
+export interface SessionResumeData {
+  requestId: string; // Client-generated; a retry with the same ID gets the first result instead of acting twice
+  userId?: string; // Ignored unless it matches the authenticated user
+  sessionId: string;
+  version?: number; // Session version the client last saw; stale versions get SESSION_CONFLICT
+}
+
+export interface SessionStopData {
+  requestId: string; // Client-generated; a retry with the same ID gets the first result instead of acting twice
+  userId?: string; // Ignored unless it matches the authenticated user
+  sessionId: string;
+  milkYield?: MilkYield;
+  version?: number; // Session version the client last saw; stale versions get SESSION_CONFLICT
+}
+
+export interface SessionSyncData {
+  userId?: string; // Ignored unless it matches the authenticated user
+}
+
+/**
+ * Milk yield and quality recorded when a session stops
+ */
+export interface MilkYield {
+  litres: number;
+  fatPercent?: number;
+  snfPercent?: number;
+  notes?: string;
+}
+
+/**
+ * Device that performed an action on a session
+ */
+export interface DeviceInfo {
+  deviceId: string | null; // ID sent in the handshake (null for clients that send none, e.g. HTTP)
+  name: string | null; // Name sent in the handshake, else the client's user agent
+}
+
+export type SessionActionType = 'start' | 'pause' | 'resume' | 'stop';
+
+/**
+ * Latest action on a session
+ */
+export interface SessionLastAction {
+  type: SessionActionType;
+  at: number; // Unix timestamp in milliseconds
+  performedBy: DeviceInfo | null; // null when the server acted on its own (policy, expiry, recovery)
+}
+
+export interface SessionStartedData {
+  sessionId: string;
+  userId: string;
+  animalId: string;
+  startTime: number;
+  elapsedTime: number;
+  version: number;
+  performedBy: DeviceInfo | null; // Device that issued the action (null: the server)
+}
+
+/**
+ * Status of a live session as reported by the server
+ */
+export type ServerSessionStatus = 'active' | 'paused' | 'completed';
+
+export type PauseReason = 'user' | 'inactivity';
+
+export interface SessionTickData {
+  sessionId: string;
+  userId: string;
+  elapsedTime: number;
+  status: ServerSessionStatus;
+}
+
+export interface SessionPausedData {
+  sessionId: string;
+  userId: string;
+  elapsedTime: number;
+  version: number;
+  performedBy: DeviceInfo | null; // Device that issued the action (null: the server)
+}
+
+export interface SessionResumedData {
+  sessionId: string;
+  userId: string;
+  elapsedTime: number;
+  version: number;
+  performedBy: DeviceInfo | null; // Device that issued the action (null: the server)
+}
+
+export type SessionEndReason = 'stopped' | 'expired' | 'max_duration';
+
+export interface SessionStoppedData {
+  sessionId: string;
+  userId: string;
+  animalId: string;
+  totalElapsedTime: number;
+  milkYield: MilkYield | null;
+  endReason: SessionEndReason; // expired: abandoned session finalized by the server; max_duration: auto-stopped
+  performedBy: DeviceInfo | null; // Device that issued the action (null: the server)
+}
+
+/**
+ * An automatic action the server took on a session because of its policy
+ * Sent after the regular state event (SESSION_PAUSED / SESSION_STOPPED)
+ */
+export interface SessionAutoActionData {
+  sessionId: string;
+  userId: string;
+  action: 'paused' | 'stopped';
+  reason: 'inactivity' | 'max_duration';
+  thresholdSeconds: number; // The policy limit that was reached
+  elapsedTime: number;
+  message: string; // Human-readable explanation
+  timestamp: number;
+}
+
+export interface SessionSyncResponseData {
+  userId: string;
+  sessions: SessionStateData[];
+}
+
+export interface SessionStateData {
+  sessionId: string;
+  userId: string;
+  animalId: string;
+  elapsedTime: number;
+  status: ServerSessionStatus;
+  startTime: number;
+  lastUpdateTime: number;
+  version: number; // Incremented on every state transition
+  pauseReason: PauseReason | null; // Why a paused session is paused
+  lastAction: SessionLastAction | null; // Latest start, pause, resume or stop, and who issued it
+}
+
+export interface ErrorData {
+  message: string;
+  code?: string; // Stable error code, e.g. INVALID_PAYLOAD or SESSION_NOT_FOUND
+  sessionId?: string;
+  details?: Array<{ field: string; message: string }>; // Invalid fields (INVALID_PAYLOAD and INVALID_YIELD)
+}
+
+export interface ConnectedData {
+  socketId: string;
+  timestamp: number;
+  protocolVersion: number; // PROTOCOL_VERSION of the server
+}
@@ -2,6 +2,11 @@ import express, { Express } from 'express';
 import { Server as HttpServer } from 'http';
 import routes from './routes';
 
+/**
+ * Largest accepted body for POST /sessions/import
+ */
+const IMPORT_BODY_LIMIT = '10mb';
+
 /**
  * Create and configure Express application
  */
@@ -12,7 +17,8 @@ const createApp = (): Express => {
   app.use((req, res, next) => {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, If-None-Match');
+    res.header('Access-Control-Expose-Headers', 'ETag');
     
     // Handle preflight requests
     if (req.method === 'OPTIONS') {
@@ -22,6 +28,13 @@ const createApp = (): Express => {
     next();
   });
 
+  // Bulk imports carry up to thousands of records, as JSON or CSV text
+  app.use(
+    '/sessions/import',
+    express.json({ limit: IMPORT_BODY_LIMIT }),
+    express.text({ type: ['text/csv', 'text/plain'], limit: IMPORT_BODY_LIMIT })
+  );
+
   // JSON and URL-encoded body parsing
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
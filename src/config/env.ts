@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import os from 'os';
 
 dotenv.config();
 
@@ -13,6 +14,18 @@ interface Config {
   redisHost: string;
   redisPort: number;
   redisPassword?: string;
+  authTokenSecret: string;
+  authTokenTtlSeconds: number;
+  outboxFilePath: string;
+  outboxReplayIntervalMs: number;
+  adminUserIds: string[];
+  orphanedSessionGraceSeconds: number;
+  orphanedSessionAction: 'pause' | 'finalize';
+  instanceId: string;
+  sessionStore: 'redis' | 'memory' | 'fallback';
+  sessionExpirySweepIntervalMs: number;
+  defaultInactivityPauseSeconds: number;
+  defaultMaxSessionDurationSeconds: number;
 }
 
 /**
@@ -29,14 +42,51 @@ const getConfig = (): Config => {
   const redisPort = parseInt(process.env.REDIS_PORT || '6379', 10);
   const redisPassword = process.env.REDIS_PASSWORD;
 
+  const nodeEnv = process.env.NODE_ENV || 'development';
+  const authTokenSecret = process.env.AUTH_TOKEN_SECRET;
+  if (!authTokenSecret && nodeEnv === 'production') {
+    throw new Error('AUTH_TOKEN_SECRET environment variable is required in production');
+  }
+  if (!authTokenSecret) {
+    console.warn('AUTH_TOKEN_SECRET not set - using an insecure development secret');
+  }
+
+  const orphanedSessionAction = process.env.ORPHANED_SESSION_ACTION || 'pause';
+  if (orphanedSessionAction !== 'pause' && orphanedSessionAction !== 'finalize') {
+    throw new Error('ORPHANED_SESSION_ACTION must be either "pause" or "finalize"');
+  }
+
+  const sessionStore = process.env.SESSION_STORE || 'fallback';
+  if (sessionStore !== 'redis' && sessionStore !== 'memory' && sessionStore !== 'fallback') {
+    throw new Error('SESSION_STORE must be one of "redis", "memory" or "fallback"');
+  }
+
   return {
     port: parseInt(process.env.PORT || '3000', 10),
-    nodeEnv: process.env.NODE_ENV || 'development',
+    nodeEnv,
     databaseUrl,
     redisUrl: redisUrl || `redis://${redisHost}:${redisPort}`,
     redisHost,
     redisPort,
     redisPassword,
+    authTokenSecret: authTokenSecret || 'dev-insecure-secret',
+    authTokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '43200', 10), // 12 hours
+    outboxFilePath: process.env.OUTBOX_FILE_PATH || 'data/session-outbox.json',
+    outboxReplayIntervalMs: parseInt(process.env.OUTBOX_REPLAY_INTERVAL_MS || '15000', 10),
+    adminUserIds: (process.env.ADMIN_USER_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    orphanedSessionGraceSeconds: parseInt(process.env.ORPHANED_SESSION_GRACE_SECONDS || '300', 10),
+    orphanedSessionAction,
+    // Identifies this process when several backend instances share Redis
+    instanceId: process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}`,
+    // Where active sessions and animal locks are stored
+    sessionStore,
+    sessionExpirySweepIntervalMs: parseInt(process.env.SESSION_EXPIRY_SWEEP_INTERVAL_MS || '30000', 10),
+    // Session policy defaults, used where no user or farm policy sets a value (0 disables; off unless set)
+    defaultInactivityPauseSeconds: parseInt(process.env.SESSION_INACTIVITY_PAUSE_SECONDS || '0', 10),
+    defaultMaxSessionDurationSeconds: parseInt(process.env.SESSION_MAX_DURATION_SECONDS || '0', 10),
   };
 };
 
@@ -4,33 +4,131 @@
 
 export const REDIS_KEY_PATTERNS = {
   ACTIVE_SESSION: 'active_session',
+  USER_SESSIONS: 'user_sessions',
   LOCK_MILKING: 'lock:milking',
+  LOCK_FENCE: 'fence:milking',
   HISTORY: 'history',
+  HISTORY_VERSION: 'history_version',
+  OUTBOX_SESSIONS: 'outbox:sessions',
+  TIMER_LEASE: 'timer_lease',
+  HEARTBEAT: 'heartbeat',
+  COMMAND: 'command',
 } as const;
 
 /**
  * Generate Redis key for active session
+ * @param sessionId - Session ID
+ * @returns Redis key: active_session:{sessionId}
+ */
+export const getActiveSessionKey = (sessionId: string): string => {
+  return `${REDIS_KEY_PATTERNS.ACTIVE_SESSION}:${sessionId}`;
+};
+
+/**
+ * Pattern matching every active session key (for SCAN)
+ * @returns Redis key pattern: active_session:*
+ */
+export const getActiveSessionKeyPattern = (): string => {
+  return `${REDIS_KEY_PATTERNS.ACTIVE_SESSION}:*`;
+};
+
+/**
+ * Generate Redis key for the set of active session IDs owned by a user
  * @param userId - User ID
- * @returns Redis key: active_session:{userId}
+ * @returns Redis key: user_sessions:{userId}
  */
-export const getActiveSessionKey = (userId: string): string => {
-  return `${REDIS_KEY_PATTERNS.ACTIVE_SESSION}:${userId}`;
+export const getUserSessionsKey = (userId: string): string => {
+  return `${REDIS_KEY_PATTERNS.USER_SESSIONS}:${userId}`;
 };
 
 /**
  * Generate Redis key for milking lock
+ * Locks are held per animal so one animal cannot be milked twice at once
+ * @param animalId - Animal ID
+ * @returns Redis key: lock:milking:{animalId}
+ */
+export const getMilkingLockKey = (animalId: string): string => {
+  return `${REDIS_KEY_PATTERNS.LOCK_MILKING}:${animalId}`;
+};
+
+/**
+ * Generate Redis key for an animal's fencing token counter
+ * Incremented every time the animal's lock is acquired (never expires)
+ * @param animalId - Animal ID
+ * @returns Redis key: fence:milking:{animalId}
+ */
+export const getLockFenceKey = (animalId: string): string => {
+  return `${REDIS_KEY_PATTERNS.LOCK_FENCE}:${animalId}`;
+};
+
+/**
+ * Generate Redis key for one page of user history
+ * @param userId - User ID
+ * @param version - User's history version (see getHistoryVersionKey)
+ * @param queryHash - Hash of the history query (filters, sort and page; see getHistoryQueryHash)
+ * @returns Redis key: history:{userId}:v{version}:{queryHash}
+ */
+export const getHistoryKey = (userId: string, version: number, queryHash: string): string => {
+  return `${REDIS_KEY_PATTERNS.HISTORY}:${userId}:v${version}:${queryHash}`;
+};
+
+/**
+ * Generate Redis key for a user's session statistics
+ * Kept under the user's history keys, since both are derived from completed sessions
+ * @param userId - User ID
+ * @param version - User's history version (see getHistoryVersionKey)
+ * @param queryHash - Hash of the stats query (see getStatsQueryHash)
+ * @returns Redis key: history:{userId}:v{version}:stats:{queryHash}
+ */
+export const getStatsKey = (userId: string, version: number, queryHash: string): string => {
+  return `${REDIS_KEY_PATTERNS.HISTORY}:${userId}:v${version}:stats:${queryHash}`;
+};
+
+/**
+ * Generate Redis key for the version of a user's history
+ * Incremented whenever completed sessions are saved, which retires every cached
+ * history page and statistic of the user
+ * @param userId - User ID
+ * @returns Redis key: history_version:{userId}
+ */
+export const getHistoryVersionKey = (userId: string): string => {
+  return `${REDIS_KEY_PATTERNS.HISTORY_VERSION}:${userId}`;
+};
+
+/**
+ * Redis key for the list of completed sessions waiting to be persisted
+ * @returns Redis key: outbox:sessions
+ */
+export const getSessionOutboxKey = (): string => {
+  return REDIS_KEY_PATTERNS.OUTBOX_SESSIONS;
+};
+
+/**
+ * Generate Redis key for the lease that decides which instance ticks a session
+ * @param sessionId - Session ID
+ * @returns Redis key: timer_lease:{sessionId}
+ */
+export const getTimerLeaseKey = (sessionId: string): string => {
+  return `${REDIS_KEY_PATTERNS.TIMER_LEASE}:${sessionId}`;
+};
+
+/**
+ * Generate Redis key for the time a user's client last reported activity
  * @param userId - User ID
- * @returns Redis key: lock:milking:{userId}
+ * @returns Redis key: heartbeat:{userId}
  */
-export const getMilkingLockKey = (userId: string): string => {
-  return `${REDIS_KEY_PATTERNS.LOCK_MILKING}:${userId}`;
+export const getHeartbeatKey = (userId: string): string => {
+  return `${REDIS_KEY_PATTERNS.HEARTBEAT}:${userId}`;
 };
 
 /**
- * Generate Redis key for user history
+ * Generate Redis key for the outcome of a client command
+ * Holds a pending marker while the command runs, then its result, for the deduplication window
  * @param userId - User ID
- * @returns Redis key: history:{userId}
+ * @param event - Command event (e.g. SESSION_STOP), so a request ID reused for another command is not mistaken for a retry
+ * @param requestId - Client-generated request ID
+ * @returns Redis key: command:{userId}:{event}:{requestId}
  */
-export const getHistoryKey = (userId: string): string => {
-  return `${REDIS_KEY_PATTERNS.HISTORY}:${userId}`;
+export const getCommandKey = (userId: string, event: string, requestId: string): string => {
+  return `${REDIS_KEY_PATTERNS.COMMAND}:${userId}:${event}:${requestId}`;
 };
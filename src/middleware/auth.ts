@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { getBearerToken, verifyAuthToken } from '../utils/auth';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /**
+     * ID of the authenticated user (set by requireAuth)
+     */
+    userId?: string;
+  }
+}
+
+/**
+ * Require a valid bearer token on the request
+ * Sets req.userId from the verified token, responds 401 otherwise
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req.headers.authorization);
+  const payload = token ? verifyAuthToken(token) : null;
+
+  if (!payload) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  req.userId = payload.sub;
+  next();
+};
+
+/**
+ * Require the authenticated user to be an administrator (listed in ADMIN_USER_IDS)
+ * Must run after requireAuth
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.userId || !config.adminUserIds.includes(req.userId)) {
+    return res.status(403).json({
+      error: 'Administrator access required',
+    });
+  }
+
+  next();
+};
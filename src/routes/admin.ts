@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { getOutboxEntries, OutboxEntryStatus } from '../utils/session-outbox';
+import { prisma } from '../utils/prisma';
+import { getDefaultSessionPolicy, validateSessionPolicy } from '../utils/session-policy';
+import { sendValidationError, validatePayload } from '../utils/payload-validation';
+
+const router = Router();
+
+/**
+ * Schema of the GET /admin/outbox query
+ */
+const outboxQuerySchema = z.object({
+  status: z.nativeEnum(OutboxEntryStatus).optional(),
+});
+
+/**
+ * GET /admin/outbox
+ * List completed sessions that are waiting to be written to the database
+ * Requires an administrator token
+ *
+ * Query params:
+ * - status: 'pending' | 'failed' (optional) - Only return entries with this status
+ */
+router.get('/admin/outbox', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const parsed = validatePayload(outboxQuerySchema, req.query, 'outbox query');
+    if (!parsed.valid) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { status } = parsed.value;
+
+    const entries = await getOutboxEntries();
+    const filtered = status ? entries.filter((entry) => entry.status === status) : entries;
+
+    return res.status(200).json({
+      pending: entries.filter((entry) => entry.status === OutboxEntryStatus.PENDING).length,
+      failed: entries.filter((entry) => entry.status === OutboxEntryStatus.FAILED).length,
+      entries: filtered,
+    });
+  } catch (error: any) {
+    console.error('[Admin] Failed to read outbox:', error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to read outbox',
+    });
+  }
+});
+
+/**
+ * GET /admin/policies
+ * List user and farm session policies and the server defaults they fall back to
+ * Requires an administrator token
+ */
+router.get('/admin/policies', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const policies = await prisma.sessionPolicy.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return res.status(200).json({
+      defaults: getDefaultSessionPolicy(),
+      users: policies.filter((policy) => policy.userId !== null),
+      farms: policies.filter((policy) => policy.farm !== null),
+    });
+  } catch (error: any) {
+    console.error('[Admin] Failed to read session policies:', error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to read session policies',
+    });
+  }
+});
+
+/**
+ * PUT /admin/policies/:scope/:id
+ * Create or replace the session policy for a user (scope "users") or a farm (scope "farms")
+ * Applies to sessions started afterwards
+ * Requires an administrator token
+ *
+ * Body: { inactivityPauseSeconds?: number | null, maxDurationSeconds?: number | null }
+ * (null or omitted inherits: user -> farm -> server default; 0 disables the control)
+ */
+router.put('/admin/policies/:scope/:id', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { scope, id } = req.params;
+    if (scope !== 'users' && scope !== 'farms') {
+      return res.status(404).json({
+        error: 'scope must be either "users" or "farms"',
+      });
+    }
+
+    const result = validateSessionPolicy(req.body);
+    if (!result.valid) {
+      return sendValidationError(res, result.error);
+    }
+
+    const where = scope === 'users' ? { userId: id } : { farm: id };
+    const policy = await prisma.sessionPolicy.upsert({
+      where,
+      create: { ...where, ...result.value },
+      update: result.value,
+    });
+
+    return res.status(200).json(policy);
+  } catch (error: any) {
+    console.error('[Admin] Failed to save session policy:', error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to save session policy',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma';
+import { sendValidationError, validatePayload } from '../utils/payload-validation';
+import { signAuthToken, verifyPassword } from '../utils/auth';
+
+const router = Router();
+
+/**
+ * Schema of the POST /auth/login body
+ */
+const loginBodySchema = z.object({
+  username: z.string({ required_error: 'is required', invalid_type_error: 'must be a string' }).min(1, 'is required'),
+  password: z.string({ required_error: 'is required', invalid_type_error: 'must be a string' }).min(1, 'is required'),
+});
+
+/**
+ * POST /auth/login
+ * Exchange username and password for a signed auth token
+ *
+ * Body:
+ * - username: string (required)
+ * - password: string (required)
+ */
+router.post('/auth/login', async (req: Request, res: Response) => {
+  try {
+    const parsed = validatePayload(loginBodySchema, req.body, 'login request');
+    if (!parsed.valid) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { username, password } = parsed.value;
+
+    const user = await prisma.user.findUnique({
+      where: { username },
+    });
+
+    // Same response for unknown users and wrong passwords
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({
+        error: 'Invalid username or password',
+      });
+    }
+
+    const { token, expiresAt } = signAuthToken(user.id);
+
+    return res.status(200).json({
+      token,
+      expiresAt,
+      user: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+      },
+    });
+  } catch (error: any) {
+    console.error('[Auth] Login failed:', error?.message || error);
+    return res.status(503).json({
+      error: 'Login is temporarily unavailable',
+    });
+  }
+});
+
+export default router;
@@ -1,11 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { isRedisConnected } from '../utils/redis';
+import { getReconciliationStatus } from '../utils/fallback-reconciliation';
 
 const router = Router();
 
 /**
  * Health check endpoint
- * Returns server status and Redis connection status
+ * Returns server status, Redis connection status and the state of the
+ * in-memory fallback (what is still pending and what the last reconciliation did)
  */
 router.get('/health', async (req: Request, res: Response) => {
   const redisStatus = await isRedisConnected();
@@ -19,6 +21,7 @@ router.get('/health', async (req: Request, res: Response) => {
     services: {
       redis: redisStatus ? 'connected' : 'disconnected',
     },
+    reconciliation: getReconciliationStatus(),
   });
 });
 
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import healthRouter from './health';
 import sessionsRouter from './sessions';
+import sessionControlRouter from './session-control';
+import animalsRouter from './animals';
+import authRouter from './auth';
+import adminRouter from './admin';
 
 /**
  * Main router combining all route modules
@@ -9,5 +13,9 @@ const router = Router();
 
 router.use('/', healthRouter);
 router.use('/', sessionsRouter);
+router.use('/', sessionControlRouter);
+router.use('/', animalsRouter);
+router.use('/', authRouter);
+router.use('/', adminRouter);
 
 export default router;
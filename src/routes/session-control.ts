@@ -0,0 +1,226 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { describeDevice } from '../utils/device';
+import { sendValidationError, validatePayload } from '../utils/payload-validation';
+import { sessionStartSchema, sessionTargetSchema, sessionStopSchema } from '../schemas/socket-events';
+import {
+  SessionActor,
+  SessionCommandError,
+  SessionErrorCode,
+  startUserSession,
+  pauseUserSession,
+  resumeUserSession,
+  stopUserSession,
+  syncUserSessions,
+  toSessionState,
+  toStartedData,
+  toPausedData,
+  toResumedData,
+  toStoppedData,
+} from '../services/session-service';
+import { getSocketIO } from '../socket/socket-handler';
+import { getUserRoom } from '../socket/session-timer';
+
+const router = Router();
+
+/**
+ * HTTP status for each rejected command
+ */
+const ERROR_STATUS: Record<SessionErrorCode, number> = {
+  ANIMAL_REQUIRED: 400,
+  INVALID_YIELD: 400,
+  ANIMAL_NOT_FOUND: 404,
+  SESSION_NOT_FOUND: 404,
+  SESSION_LOCK_FAILED: 409,
+  SESSION_CONFLICT: 409,
+};
+
+/**
+ * The authenticated user issuing a command over HTTP
+ */
+const getActor = (req: Request): SessionActor => ({
+  userId: req.userId!,
+  device: { deviceId: null, name: describeDevice(req.headers['user-agent']) },
+});
+
+/**
+ * Respond with a rejected command
+ * On conflict the current state is included so the client can catch up
+ */
+const sendCommandError = (res: Response, error: SessionCommandError) => {
+  return res.status(ERROR_STATUS[error.code]).json({
+    error: error.message,
+    code: error.code,
+    sessionId: error.sessionId,
+    details: error.details,
+    ...(error.code === 'SESSION_CONFLICT' && error.session ? { session: toSessionState(error.session) } : {}),
+  });
+};
+
+/**
+ * Request bodies: the payloads of the matching socket events (userId is taken
+ * from the token; requestId only applies to acknowledged socket commands)
+ */
+const startBodySchema = sessionStartSchema.omit({ userId: true, requestId: true });
+const targetBodySchema = sessionTargetSchema.omit({ userId: true, requestId: true });
+const stopBodySchema = sessionStopSchema.omit({ userId: true, requestId: true });
+
+/**
+ * Socket.IO room of the user's devices (every instance, via the cluster adapter)
+ * Commands issued over HTTP are broadcast there so open apps stay in sync
+ */
+const userDevices = (userId: string) => getSocketIO()?.to(getUserRoom(userId));
+
+/**
+ * POST /sessions/start
+ * Start a session for an animal (same as the SESSION_START socket event)
+ *
+ * Body: { animalId: string }
+ */
+router.post('/sessions/start', requireAuth, async (req: Request, res: Response) => {
+  const body = validatePayload(startBodySchema, req.body, 'request body');
+  if (!body.valid) {
+    return sendValidationError(res, body.error);
+  }
+
+  try {
+    const actor = getActor(req);
+    const result = await startUserSession(actor, body.value.animalId);
+    if (!result.ok) {
+      return sendCommandError(res, result.error);
+    }
+
+    const started = toStartedData(result.session);
+    userDevices(actor.userId)?.emit('SESSION_STARTED', started);
+    return res.status(201).json(started);
+  } catch (error: any) {
+    console.error('[Sessions] Failed to start session:', error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to start session',
+      code: 'SESSION_START_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /sessions/pause
+ * Pause a running session (same as the SESSION_PAUSE socket event)
+ *
+ * Body: { sessionId: string, version?: number }
+ */
+router.post('/sessions/pause', requireAuth, async (req: Request, res: Response) => {
+  const body = validatePayload(targetBodySchema, req.body, 'request body');
+  if (!body.valid) {
+    return sendValidationError(res, body.error);
+  }
+  const target = body.value;
+
+  try {
+    const actor = getActor(req);
+    const result = await pauseUserSession(actor, target.sessionId, target.version);
+    if (!result.ok) {
+      return sendCommandError(res, result.error);
+    }
+
+    const paused = toPausedData(result.session);
+    userDevices(actor.userId)?.emit('SESSION_PAUSED', paused);
+    return res.status(200).json(paused);
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to pause session ${target.sessionId}:`, error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to pause session',
+      code: 'SESSION_PAUSE_ERROR',
+      sessionId: target.sessionId,
+    });
+  }
+});
+
+/**
+ * POST /sessions/resume
+ * Resume a paused session (same as the SESSION_RESUME socket event)
+ *
+ * Body: { sessionId: string, version?: number }
+ */
+router.post('/sessions/resume', requireAuth, async (req: Request, res: Response) => {
+  const body = validatePayload(targetBodySchema, req.body, 'request body');
+  if (!body.valid) {
+    return sendValidationError(res, body.error);
+  }
+  const target = body.value;
+
+  try {
+    const actor = getActor(req);
+    const result = await resumeUserSession(actor, target.sessionId, target.version);
+    if (!result.ok) {
+      return sendCommandError(res, result.error);
+    }
+
+    const resumed = toResumedData(result.session);
+    userDevices(actor.userId)?.emit('SESSION_RESUMED', resumed);
+    return res.status(200).json(resumed);
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to resume session ${target.sessionId}:`, error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to resume session',
+      code: 'SESSION_RESUME_ERROR',
+      sessionId: target.sessionId,
+    });
+  }
+});
+
+/**
+ * POST /sessions/stop
+ * Stop a session, optionally recording its yield (same as the SESSION_STOP socket event)
+ *
+ * Body: { sessionId: string, milkYield?: { litres, fatPercent?, snfPercent?, notes? }, version?: number }
+ */
+router.post('/sessions/stop', requireAuth, async (req: Request, res: Response) => {
+  const body = validatePayload(stopBodySchema, req.body, 'request body');
+  if (!body.valid) {
+    return sendValidationError(res, body.error);
+  }
+  const target = body.value;
+
+  try {
+    const actor = getActor(req);
+    const result = await stopUserSession(actor, target.sessionId, target.milkYield, target.version);
+    if (!result.ok) {
+      return sendCommandError(res, result.error);
+    }
+
+    const stopped = toStoppedData(result.session, result.milkYield);
+    userDevices(actor.userId)?.emit('SESSION_STOPPED', stopped);
+    return res.status(200).json(stopped);
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to stop session ${target.sessionId}:`, error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to stop session',
+      code: 'SESSION_STOP_ERROR',
+      sessionId: target.sessionId,
+    });
+  }
+});
+
+/**
+ * GET /sessions/active
+ * The authenticated user's running (active or paused) sessions
+ * (same payload and timer recovery as the SESSION_SYNC socket event)
+ */
+router.get('/sessions/active', requireAuth, async (req: Request, res: Response) => {
+  const userId = req.userId!;
+
+  try {
+    const sessions = await syncUserSessions(userId);
+    return res.status(200).json({
+      userId,
+      sessions: sessions.map(toSessionState),
+    });
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to list active sessions for user ${userId}:`, error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to fetch active sessions',
+    });
+  }
+});
+
+export default router;
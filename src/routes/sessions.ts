@@ -1,7 +1,20 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/prisma';
 import { get, setWithTTL } from '../utils/redis';
-import { getHistoryKey } from '../constants/redis-keys';
+import { getHistoryKey, getStatsKey } from '../constants/redis-keys';
+import { requireAuth } from '../middleware/auth';
+import { getSessionTimeline } from '../utils/session-timeline';
+import { getHistoryVersion, getHistoryETag, matchesETag } from '../utils/history-cache';
+import { SessionStats, parseStatsQuery, getStatsQueryHash, getSessionStats } from '../utils/session-stats';
+import { EXPORT_CONTENT_TYPES, parseExportQuery, writeSessionExport } from '../utils/session-export';
+import { sendValidationError } from '../utils/payload-validation';
+import { parseImportBody, importSessions } from '../utils/session-import';
+import {
+  parseHistoryQuery,
+  buildHistoryWhere,
+  buildHistoryOrderBy,
+  getHistoryQueryHash,
+} from '../utils/history-query';
 
 const router = Router();
 
@@ -22,89 +35,164 @@ const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, errorMessage: st
   ]);
 };
 
+/**
+ * One page of history as returned (and cached) by GET /sessions
+ */
+interface HistoryPage {
+  sessions: unknown[];
+  total: number; // Sessions matching the filters, across all pages
+  pageInfo: {
+    limit: number;
+    hasMore: boolean;
+    nextCursor: string | null; // Pass as cursor to fetch the next page
+  };
+}
+
+/**
+ * Page returned when the database cannot be read
+ */
+const emptyHistoryPage = (limit: number): HistoryPage => ({
+  sessions: [],
+  total: 0,
+  pageInfo: { limit, hasMore: false, nextCursor: null },
+});
+
 /**
  * GET /sessions
- * Fetch completed sessions for a user
+ * Fetch a page of completed sessions for the authenticated user
  * 
  * Query params:
- * - userId: string (required) - User ID to fetch sessions for
+ * - userId: string (optional) - Must match the authenticated user if provided
+ * - animalId: string (optional) - Only return sessions for this animal
+ * - from / to: ISO date (optional) - Only sessions started in [from, to)
+ * - minDuration / maxDuration: seconds (optional) - Inclusive duration range
+ * - sortBy: startTime | endTime | duration (default: startTime)
+ * - order: asc | desc (default: desc)
+ * - limit: 1-200 (default: 50)
+ * - cursor: string (optional) - nextCursor of the previous page
+ *
+ * Pages carry an ETag; a request whose If-None-Match matches gets 304 Not Modified
  */
-router.get('/sessions', async (req: Request, res: Response) => {
+router.get('/sessions', requireAuth, async (req: Request, res: Response) => {
   const startTime = Date.now();
-  console.log(`[Sessions] Request received for userId: ${req.query.userId}`);
+  const userId = req.userId!;
+  console.log(`[Sessions] Request received for userId: ${userId}`);
   
   try {
-    const { userId } = req.query;
-
-    // Validate userId
-    if (!userId || typeof userId !== 'string') {
-      return res.status(400).json({
-        error: 'userId query parameter is required',
+    // A userId in the query is only accepted if it matches the token
+    if (req.query.userId !== undefined && req.query.userId !== userId) {
+      return res.status(403).json({
+        error: 'Cannot read sessions for another user',
       });
     }
 
+    const parsed = parseHistoryQuery(req.query);
+    if (!parsed.valid) {
+      return sendValidationError(res, parsed.error);
+    }
+    const query = parsed.value;
+    const animalId = query.animalId;
+
     // Check Redis cache first (with shorter timeout to fail fast)
-    const historyKey = getHistoryKey(userId);
+    // Every combination of filters, sort and page has its own entry, stored under the
+    // user's history version so saving a session retires all of them at once
+    // Without a version (Redis unavailable) the cache is skipped
+    const version = await getHistoryVersion(userId);
+    const historyKey = version === null ? null : getHistoryKey(userId, version, getHistoryQueryHash(query));
     let cachedData: string | null = null;
-    try {
-      console.log(`[Sessions] Checking Redis cache for key: ${historyKey}`);
-      // Use a very short timeout for Redis to fail fast
-      cachedData = await Promise.race([
-        get(historyKey),
-        new Promise<string | null>((resolve) => 
-          setTimeout(() => {
-            console.warn('[Sessions] Redis operation timed out, skipping cache');
-            resolve(null);
-          }, 1500) // 1.5 second timeout - fail fast
-        )
-      ]);
-      console.log(`[Sessions] Redis cache ${cachedData ? 'hit' : 'miss'}`);
-    } catch (redisError: any) {
-      // Redis timeout or error - continue to database query
-      console.warn(`[Sessions] Redis cache check failed: ${redisError?.message}`);
-      cachedData = null; // Ensure it's null
+    if (historyKey) {
+      try {
+        console.log(`[Sessions] Checking Redis cache for key: ${historyKey}`);
+        // Use a very short timeout for Redis to fail fast
+        cachedData = await Promise.race([
+          get(historyKey),
+          new Promise<string | null>((resolve) => 
+            setTimeout(() => {
+              console.warn('[Sessions] Redis operation timed out, skipping cache');
+              resolve(null);
+            }, 1500) // 1.5 second timeout - fail fast
+          )
+        ]);
+        console.log(`[Sessions] Redis cache ${cachedData ? 'hit' : 'miss'}`);
+      } catch (redisError: any) {
+        // Redis timeout or error - continue to database query
+        console.warn(`[Sessions] Redis cache check failed: ${redisError?.message}`);
+        cachedData = null; // Ensure it's null
+      }
     }
 
     if (cachedData) {
-      // Cache hit - return cached data
+      // Cache hit - the client may already have this page
+      const etag = getHistoryETag(cachedData);
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      if (matchesETag(req.headers['if-none-match'], etag)) {
+        console.log('[Sessions] Cached page not modified');
+        return res.status(304).end();
+      }
+
+      // Return cached data
       try {
-        const sessions = JSON.parse(cachedData);
+        const page: HistoryPage = JSON.parse(cachedData);
         const duration = Date.now() - startTime;
-        console.log(`[Sessions] Returning cached data (${sessions.length} sessions) in ${duration}ms`);
+        console.log(`[Sessions] Returning cached data (${page.sessions.length} sessions) in ${duration}ms`);
         return res.status(200).json({
           userId,
-          sessions,
+          animalId: animalId ?? null,
+          ...page,
           cached: true,
         });
       } catch (parseError) {
         // Invalid cache data - continue to database query
         console.warn('[Sessions] Failed to parse cached data, fetching from database');
+        res.removeHeader('ETag');
+        res.removeHeader('Cache-Control');
       }
     }
 
     // Cache miss - fetch from Prisma (with timeout)
     console.log(`[Sessions] Fetching from database for userId: ${userId}`);
-    let sessions = [];
+    let page: HistoryPage;
     try {
+      const where = buildHistoryWhere(userId, query);
       // Use Promise.race for more reliable timeout
-      sessions = await Promise.race([
-        prisma.milkingSession.findMany({
-          where: {
-            userId: userId,
-          },
-          orderBy: {
-            startTime: 'desc', // Sort by startTime descending (newest first)
-          },
-        }),
-        new Promise<never[]>((_, reject) => 
+      // One extra row tells whether another page follows
+      const [rows, total] = await Promise.race([
+        Promise.all([
+          prisma.milkingSession.findMany({
+            where,
+            include: {
+              animal: {
+                select: { tagNumber: true, name: true, farm: true },
+              },
+            },
+            orderBy: buildHistoryOrderBy(query),
+            take: query.limit + 1,
+            ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+          }),
+          prisma.milkingSession.count({ where }),
+        ]),
+        new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Database query timed out')), 3000) // 3 second timeout
         )
       ]);
-      console.log(`[Sessions] Database query successful, found ${sessions.length} sessions`);
+
+      const hasMore = rows.length > query.limit;
+      const sessions = hasMore ? rows.slice(0, query.limit) : rows;
+      page = {
+        sessions,
+        total,
+        pageInfo: {
+          limit: query.limit,
+          hasMore,
+          nextCursor: hasMore ? sessions[sessions.length - 1].id : null,
+        },
+      };
+      console.log(`[Sessions] Database query successful, found ${sessions.length} of ${total} sessions`);
 
       // Cache the result in Redis with TTL (if we got data) - don't wait for this
-      if (sessions.length > 0) {
-        setWithTTL(historyKey, JSON.stringify(sessions), HISTORY_CACHE_TTL_SECONDS).catch((err) => {
+      if (historyKey && sessions.length > 0) {
+        setWithTTL(historyKey, JSON.stringify(page), HISTORY_CACHE_TTL_SECONDS).catch((err) => {
           // Ignore Redis caching errors
           console.warn('[Sessions] Failed to cache session history:', err?.message);
         });
@@ -119,7 +207,8 @@ router.get('/sessions', async (req: Request, res: Response) => {
         console.log(`[Sessions] Request completed in ${duration}ms (timeout)`);
         return res.status(200).json({
           userId,
-          sessions: [],
+          animalId: animalId ?? null,
+          ...emptyHistoryPage(query.limit),
           cached: false,
           message: 'Database query timed out. Please try again later.',
         });
@@ -131,7 +220,8 @@ router.get('/sessions', async (req: Request, res: Response) => {
         console.log(`[Sessions] Request completed in ${duration}ms (DB unavailable)`);
         return res.status(200).json({
           userId,
-          sessions: [],
+          animalId: animalId ?? null,
+          ...emptyHistoryPage(query.limit),
           cached: false,
           message: 'Database unavailable. Session history will be available once database is configured.',
         });
@@ -140,12 +230,22 @@ router.get('/sessions', async (req: Request, res: Response) => {
       throw dbError;
     }
 
-    // Return sorted sessions
+    // The tag matches the one computed from the cached copy of the same page
+    const etag = getHistoryETag(JSON.stringify(page));
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'private, no-cache');
+    if (matchesETag(req.headers['if-none-match'], etag)) {
+      console.log('[Sessions] Page not modified');
+      return res.status(304).end();
+    }
+
+    // Return the sorted page
     const duration = Date.now() - startTime;
     console.log(`[Sessions] Request completed successfully in ${duration}ms`);
     return res.status(200).json({
       userId,
-      sessions,
+      animalId: animalId ?? null,
+      ...page,
       cached: false,
     });
   } catch (error: any) {
@@ -158,4 +258,175 @@ router.get('/sessions', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /sessions/export
+ * Download the authenticated user's completed sessions as a file
+ * The response is streamed while sessions are read, so large histories are
+ * never held in memory
+ *
+ * Query params:
+ * - format: csv | json | ndjson (default: csv)
+ * - animalId, from, to, minDuration, maxDuration, sortBy, order - As for GET /sessions
+ *   (limit and cursor are ignored: every matching session is exported)
+ */
+router.get('/sessions/export', requireAuth, async (req: Request, res: Response) => {
+  const userId = req.userId!;
+
+  const parsed = parseExportQuery(req.query);
+  if (!parsed.valid) {
+    return sendValidationError(res, parsed.error);
+  }
+  const { format: exportFormat, ...query } = parsed.value;
+
+  // Headers are only sent with the first chunk, once the first batch has been read
+  res.status(200);
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[exportFormat]);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="milking-sessions-${new Date().toISOString().slice(0, 10)}.${exportFormat}"`
+  );
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    const count = await writeSessionExport(res, userId, query, exportFormat);
+    console.log(`[Sessions] Exported ${count} sessions for user ${userId} as ${exportFormat}`);
+    res.end();
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to export sessions for user ${userId}:`, error?.message || error);
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      return res.status(500).json({
+        error: 'Failed to export sessions',
+        message: error?.message || 'Unknown error',
+      });
+    }
+    // Part of the file was already sent; abort so the download fails instead of looking complete
+    res.destroy(error);
+  }
+});
+
+/**
+ * POST /sessions/import
+ * Import historical sessions (e.g. from paper or spreadsheet records) for the
+ * authenticated user, and report what happened to every record
+ *
+ * Body: CSV with a header row (Content-Type: text/csv), or JSON: an array of
+ * records or { sessions: [...] }. Columns are those of GET /sessions/export;
+ * startTime and endTime are required
+ */
+router.post('/sessions/import', requireAuth, async (req: Request, res: Response) => {
+  const userId = req.userId!;
+
+  const parsed = parseImportBody(req.body);
+  if (!parsed.valid) {
+    return sendValidationError(res, parsed.error);
+  }
+
+  try {
+    const report = await importSessions(userId, parsed.value);
+    console.log(
+      `[Sessions] Imported sessions for user ${userId}: ${report.created} created, ` +
+        `${report.skipped} skipped, ${report.rejected} rejected`
+    );
+    return res.status(200).json({ userId, ...report });
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to import sessions for user ${userId}:`, error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to import sessions',
+      message: error?.message || 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /sessions/stats
+ * Aggregated statistics of the authenticated user's completed sessions:
+ * totals, one entry per day/week/month, per animal and by hour of day
+ *
+ * Query params:
+ * - period: day | week | month (default: day) - Weeks start on Monday
+ * - timezone: IANA timezone (default: UTC) - Periods, dates and hours are local to it
+ * - from / to: YYYY-MM-DD (optional) - Inclusive range of local start dates
+ *   (default: to is today, from is 30 days, 12 weeks or a year earlier depending on period)
+ * - animalId: string (optional) - Only sessions for this animal
+ */
+router.get('/sessions/stats', requireAuth, async (req: Request, res: Response) => {
+  const userId = req.userId!;
+
+  const parsed = parseStatsQuery(req.query);
+  if (!parsed.valid) {
+    return sendValidationError(res, parsed.error);
+  }
+  const query = parsed.value;
+
+  try {
+    // Statistics are cached like history pages, one entry per query and history version
+    const version = await getHistoryVersion(userId);
+    const statsKey = version === null ? null : getStatsKey(userId, version, getStatsQueryHash(query));
+    const cachedData = !statsKey
+      ? null
+      : await withTimeout(get(statsKey), 1500, 'Redis operation timed out').catch((redisError: any) => {
+          console.warn(`[Sessions] Stats cache check failed: ${redisError?.message}`);
+          return null;
+        });
+    if (cachedData) {
+      try {
+        const stats: SessionStats = JSON.parse(cachedData);
+        return res.status(200).json({ userId, ...stats, cached: true });
+      } catch (parseError) {
+        console.warn('[Sessions] Failed to parse cached stats, fetching from database');
+      }
+    }
+
+    const stats = await withTimeout(getSessionStats(userId, query), 5000, 'Database query timed out');
+    if (statsKey) {
+      setWithTTL(statsKey, JSON.stringify(stats), HISTORY_CACHE_TTL_SECONDS).catch((err) => {
+        // Ignore Redis caching errors
+        console.warn('[Sessions] Failed to cache session stats:', err?.message);
+      });
+    }
+
+    return res.status(200).json({ userId, ...stats, cached: false });
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to compute stats for user ${userId}:`, error?.message || error);
+    if (error?.message?.includes('timed out') || error?.code === 'P1001') {
+      return res.status(503).json({
+        error: 'Session statistics are temporarily unavailable. Please try again later.',
+      });
+    }
+    return res.status(500).json({
+      error: 'Failed to fetch session statistics',
+      message: error?.message || 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /sessions/:id/timeline
+ * Fetch the start/pause/resume/stop events of one of the authenticated user's
+ * sessions, and the running and paused segments they divide it into
+ * Works for completed sessions and for sessions still running
+ */
+router.get('/sessions/:id/timeline', requireAuth, async (req: Request, res: Response) => {
+  const userId = req.userId!;
+  const { id } = req.params;
+
+  try {
+    const timeline = await withTimeout(getSessionTimeline(userId, id), 3000, 'Database query timed out');
+    if (!timeline) {
+      return res.status(404).json({
+        error: 'Session not found',
+      });
+    }
+
+    return res.status(200).json(timeline);
+  } catch (error: any) {
+    console.error(`[Sessions] Failed to fetch timeline for session ${id}:`, error?.message || error);
+    return res.status(500).json({
+      error: 'Failed to fetch session timeline',
+      message: error?.message || 'Unknown error',
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { ClientToServerEvents } from '../types/socket-events';
+import { milkYieldSchema } from '../utils/yield-validation';
+
+/**
+ * Client events that carry a payload
+ */
+export type ClientPayloadEvent = {
+  [E in keyof ClientToServerEvents]: Parameters<ClientToServerEvents[E]> extends [] ? never : E;
+}[keyof ClientToServerEvents];
+
+/**
+ * Payload type of a client event, as declared in ClientToServerEvents
+ */
+export type ClientEventPayload<E extends ClientPayloadEvent> = Parameters<ClientToServerEvents[E]>[0];
+
+const requiredString = () =>
+  z.string({ required_error: 'is required', invalid_type_error: 'must be a string' }).min(1, 'must not be empty');
+
+/**
+ * Longest accepted request ID (client-generated, part of a Redis key)
+ */
+const MAX_REQUEST_ID_LENGTH = 100;
+
+const requestIdSchema = requiredString().max(MAX_REQUEST_ID_LENGTH, `must be at most ${MAX_REQUEST_ID_LENGTH} characters`);
+
+const userIdSchema = z.string({ invalid_type_error: 'must be a string' }).optional();
+
+const versionSchema = z
+  .number({ invalid_type_error: 'must be an integer' })
+  .int('must be an integer')
+  .optional();
+
+/**
+ * SESSION_START payload
+ */
+export const sessionStartSchema = z.object({
+  requestId: requestIdSchema,
+  userId: userIdSchema,
+  animalId: requiredString(),
+});
+
+/**
+ * SESSION_PAUSE and SESSION_RESUME payload
+ */
+export const sessionTargetSchema = z.object({
+  requestId: requestIdSchema,
+  userId: userIdSchema,
+  sessionId: requiredString(),
+  version: versionSchema,
+});
+
+/**
+ * SESSION_STOP payload
+ */
+export const sessionStopSchema = sessionTargetSchema.extend({
+  milkYield: milkYieldSchema.nullish().transform((milkYield) => milkYield ?? undefined),
+});
+
+/**
+ * SESSION_SYNC payload (may be omitted)
+ */
+export const sessionSyncSchema = z
+  .object({ userId: userIdSchema })
+  .optional()
+  .transform((data) => data ?? {});
+
+/**
+ * Schema of every client event payload
+ * Typed against ClientToServerEvents, so a new event with a payload does not
+ * compile until it has a schema, and a schema cannot drift from its type
+ */
+export const clientEventSchemas: {
+  [E in ClientPayloadEvent]: z.ZodType<ClientEventPayload<E>, z.ZodTypeDef, unknown>;
+} = {
+  SESSION_START: sessionStartSchema,
+  SESSION_PAUSE: sessionTargetSchema,
+  SESSION_RESUME: sessionTargetSchema,
+  SESSION_STOP: sessionStopSchema,
+  SESSION_SYNC: sessionSyncSchema,
+};
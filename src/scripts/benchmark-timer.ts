@@ -0,0 +1,156 @@
+import { getRedisClient, isRedisConnected, getTTL, setWithTTL, disconnectRedis } from '../utils/redis';
+import { getActiveSessionKey } from '../constants/redis-keys';
+import {
+  ActiveSession,
+  createSession,
+  deleteSession,
+  getElapsedTime,
+  getSession,
+} from '../utils/session-storage';
+import { claimTimerLease, releaseTimerLease, TIMER_LEASE_RENEW_TICKS } from '../utils/timer-lease';
+
+/**
+ * Compare the Redis load of the two timer strategies against a real Redis:
+ * - legacy: every tick re-reads the session and rewrites it with the new elapsed time
+ * - derived: every tick reads the session and computes elapsed time from its timestamps
+ *
+ * Ticks are replayed back to back (no 1s wait), so the run also shows how long
+ * one second's worth of ticks takes. Both strategies claim each session's timer
+ * lease every TIMER_LEASE_RENEW_TICKS ticks, as the session timer does, so the
+ * counts cover the whole tick path (lease writes included).
+ *
+ * Usage: npm run benchmark:timer -- [sessions=2000] [seconds=10]
+ */
+
+const SESSION_TTL_SECONDS = 3600;
+
+/**
+ * The tick as it was before elapsed time was derived on read
+ */
+const legacyTick = async (sessionId: string): Promise<number | null> => {
+  const session = await getSession(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const current = await getSession(sessionId);
+  if (!current) {
+    return null;
+  }
+  const now = Date.now();
+  current.elapsedTime += (now - current.lastUpdateTime) / 1000;
+  current.lastUpdateTime = now;
+
+  const sessionKey = getActiveSessionKey(sessionId);
+  await getTTL(sessionKey);
+  await isRedisConnected();
+  await setWithTTL(sessionKey, JSON.stringify(current), SESSION_TTL_SECONDS);
+  return current.elapsedTime;
+};
+
+const derivedTick = async (sessionId: string): Promise<number | null> => {
+  const session = await getSession(sessionId);
+  return session ? getElapsedTime(session) : null;
+};
+
+/**
+ * Read per-command call counts from INFO commandstats
+ */
+const readCommandStats = async (): Promise<Map<string, number>> => {
+  const info = await getRedisClient().info('commandstats');
+  const stats = new Map<string, number>();
+  info.split('\n').forEach((line) => {
+    const match = /^cmdstat_([^:]+):calls=(\d+)/.exec(line.trim());
+    if (match) {
+      stats.set(match[1], parseInt(match[2], 10));
+    }
+  });
+  return stats;
+};
+
+const diffStats = (before: Map<string, number>, after: Map<string, number>) => {
+  let total = 0;
+  let writes = 0;
+  after.forEach((calls, command) => {
+    if (command === 'info') {
+      return;
+    }
+    const delta = calls - (before.get(command) ?? 0);
+    total += delta;
+    if (command === 'setex' || command === 'set' || command === 'expire') {
+      writes += delta;
+    }
+  });
+  return { total, writes };
+};
+
+const runStrategy = async (
+  name: string,
+  tick: (sessionId: string) => Promise<number | null>,
+  sessions: ActiveSession[],
+  seconds: number
+) => {
+  const before = await readCommandStats();
+  const started = Date.now();
+  for (let second = 0; second < seconds; second++) {
+    await Promise.all(
+      sessions.map(async (session) => {
+        if (second % TIMER_LEASE_RENEW_TICKS === 0) {
+          await claimTimerLease(session.sessionId);
+        }
+        await tick(session.sessionId);
+      })
+    );
+  }
+  const durationMs = Date.now() - started;
+  const { total, writes } = diffStats(before, await readCommandStats());
+  const sessionSeconds = sessions.length * seconds;
+
+  return {
+    strategy: name,
+    commands: total,
+    writes,
+    'commands/session/s': Number((total / sessionSeconds).toFixed(2)),
+    'writes/session/s': Number((writes / sessionSeconds).toFixed(2)),
+    'ms per tick round': Math.round(durationMs / seconds),
+  };
+};
+
+const benchmark = async () => {
+  const sessionCount = parseInt(process.argv[2] || '2000', 10);
+  const seconds = parseInt(process.argv[3] || '10', 10);
+
+  if (!(await isRedisConnected())) {
+    console.error('Redis is not reachable - the benchmark needs a real Redis (set REDIS_URL)');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Creating ${sessionCount} sessions...`);
+  const sessions: ActiveSession[] = [];
+  for (let i = 0; i < sessionCount; i++) {
+    const lock = { ownerToken: 'benchmark', fencingToken: 0 };
+    sessions.push(await createSession(`benchmark-user-${i}`, `benchmark-animal-${i}`, lock));
+  }
+
+  try {
+    console.log(`Simulating ${seconds}s of ticks per strategy...`);
+    const results = [
+      await runStrategy('legacy (write every tick)', legacyTick, sessions, seconds),
+      await runStrategy('derived (read only)', derivedTick, sessions, seconds),
+    ];
+    console.table(results);
+  } finally {
+    for (const session of sessions) {
+      await releaseTimerLease(session.sessionId);
+      await deleteSession(session);
+    }
+  }
+};
+
+benchmark()
+  .catch((error) => {
+    console.error('Benchmark failed:', error?.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => disconnectRedis());
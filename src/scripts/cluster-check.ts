@@ -0,0 +1,110 @@
+import { io, Socket } from 'socket.io-client';
+
+/**
+ * Check that several backend instances behave as one cluster:
+ * - ticks for a session started on the first instance reach sockets on every instance
+ * - each session is ticked by exactly one instance (about one tick per second, not one per instance)
+ *
+ * Usage: npm run cluster:check -- <username> <password> <animalId>
+ * Instance URLs come from CLUSTER_URLS (default: http://localhost:3001,http://localhost:3003)
+ */
+
+const TICK_WINDOW_MS = 5000;
+const EVENT_TIMEOUT_MS = 5000;
+
+const waitForEvent = <T>(socket: Socket, event: string, predicate: (data: T) => boolean = () => true): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      socket.off(event, listener);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, EVENT_TIMEOUT_MS);
+    const listener = (data: T) => {
+      if (predicate(data)) {
+        clearTimeout(timeout);
+        socket.off(event, listener);
+        resolve(data);
+      }
+    };
+    socket.on(event, listener);
+  });
+};
+
+const connect = (url: string, token: string): Promise<Socket> => {
+  const socket = io(url, { auth: { token }, transports: ['websocket'], reconnection: false });
+  return new Promise((resolve, reject) => {
+    socket.once('connect', () => resolve(socket));
+    socket.once('connect_error', (error) => reject(new Error(`${url}: ${error.message}`)));
+  });
+};
+
+const checkCluster = async () => {
+  const [username, password, animalId] = process.argv.slice(2);
+  if (!username || !password || !animalId) {
+    console.error('Usage: npm run cluster:check -- <username> <password> <animalId>');
+    process.exit(1);
+  }
+
+  const urls = (process.env.CLUSTER_URLS || 'http://localhost:3001,http://localhost:3003')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+  const response = await fetch(`${urls[0]}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const login = (await response.json()) as { token?: string; error?: string };
+  if (!response.ok || !login.token) {
+    throw new Error(`Login failed: ${login.error || response.status}`);
+  }
+
+  const sockets = await Promise.all(urls.map((url) => connect(url, login.token!)));
+  const [first] = sockets;
+  const last = sockets[sockets.length - 1];
+
+  try {
+    first.emit('SESSION_START', { animalId });
+    const started = await waitForEvent<{ sessionId: string }>(first, 'SESSION_STARTED');
+    const { sessionId } = started;
+    console.log(`Started session ${sessionId} on ${urls[0]}`);
+
+    // Count ticks for the session on every instance
+    const tickCounts = sockets.map(() => 0);
+    sockets.forEach((socket, index) => {
+      socket.on('SESSION_TICK', (data: { sessionId: string }) => {
+        if (data.sessionId === sessionId) {
+          tickCounts[index]++;
+        }
+      });
+    });
+    await new Promise((resolve) => setTimeout(resolve, TICK_WINDOW_MS));
+
+    // Stop through the last instance so the stop also crosses instances
+    last.emit('SESSION_STOP', { sessionId });
+    await waitForEvent<{ sessionId: string }>(last, 'SESSION_STOPPED', (data) => data.sessionId === sessionId);
+    console.log(`Stopped session ${sessionId} on ${urls[urls.length - 1]}`);
+
+    const expectedTicks = TICK_WINDOW_MS / 1000;
+    let ok = true;
+    tickCounts.forEach((count, index) => {
+      const instanceOk = count >= expectedTicks - 1 && count <= expectedTicks + 1;
+      ok = ok && instanceOk;
+      console.log(`${urls[index]}: ${count} tick(s) in ${expectedTicks}s ${instanceOk ? 'OK' : 'FAIL'}`);
+    });
+
+    if (!ok) {
+      console.error('Cluster check failed: expected about one tick per second on every instance');
+      process.exitCode = 1;
+    } else {
+      console.log('Cluster check passed');
+    }
+  } finally {
+    sockets.forEach((socket) => socket.close());
+  }
+};
+
+checkCluster().catch((error) => {
+  console.error('Cluster check failed:', error?.message || error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,31 @@
+import { prisma } from '../utils/prisma';
+import { hashPassword } from '../utils/auth';
+
+/**
+ * Create (or reset the password of) a user who can log in via /auth/login
+ *
+ * Usage: npm run user:create -- <username> <password> [name]
+ */
+const createUser = async () => {
+  const [username, password, name] = process.argv.slice(2);
+  if (!username || !password) {
+    console.error('Usage: npm run user:create -- <username> <password> [name]');
+    process.exit(1);
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.user.upsert({
+    where: { username },
+    update: { passwordHash, ...(name ? { name } : {}) },
+    create: { username, passwordHash, name: name || null },
+  });
+
+  console.log(`User ready: ${user.username} (${user.id})`);
+};
+
+createUser()
+  .catch((error) => {
+    console.error('Failed to create user:', error?.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,12 +1,16 @@
 import { Express } from 'express';
 import createApp, { createHttpServer } from './app';
 import { config } from './config/env';
-import { initializeSocketIO } from './socket/socket-handler';
+import { initializeSocketIO, enableClusterAdapter } from './socket/socket-handler';
+import { startOutboxWorker } from './utils/session-outbox';
+import { recoverSessionsOnStartup } from './socket/session-recovery';
+import { startSessionExpirySweeper } from './socket/session-expiry';
+import { startFallbackReconciliation } from './utils/fallback-reconciliation';
 
 /**
  * Start the HTTP server with WebSocket support
  */
-const startServer = () => {
+const startServer = async () => {
   try {
     const port = config.port;
 
@@ -19,6 +23,21 @@ const startServer = () => {
     // Initialize WebSocket server
     initializeSocketIO(httpServer);
 
+    // Share rooms and broadcasts with other instances (before accepting connections)
+    await enableClusterAdapter();
+
+    // Resume timers for sessions that were running before a restart
+    void recoverSessionsOnStartup();
+
+    // Replay completed sessions that could not be persisted
+    startOutboxWorker();
+
+    // Finalize sessions that were abandoned instead of letting them expire unrecorded
+    startSessionExpirySweeper();
+
+    // Move sessions and locks created while Redis was down back into Redis when it returns
+    startFallbackReconciliation();
+
     // Start listening
     httpServer.listen(port, () => {
       console.log(`Server is running on port ${port}`);
@@ -60,4 +79,4 @@ const startServer = () => {
   }
 };
 
-startServer();
+void startServer();
@@ -0,0 +1,431 @@
+import {
+  SessionStateData,
+  SessionStartedData,
+  SessionPausedData,
+  SessionResumedData,
+  SessionStoppedData,
+  SessionLastAction,
+  DeviceInfo,
+  MilkYield,
+} from '../types/socket-events';
+import {
+  ActiveSession,
+  createSession,
+  getSession,
+  getUserSessions,
+  getElapsedTime,
+  pauseSession,
+  resumeSession,
+  completeSession,
+  deleteSession,
+  getSessionLock,
+  PauseReason,
+  SessionEndReason,
+  SessionStatus,
+  TransitionResult,
+  CompletionOptions,
+} from '../utils/session-storage';
+import { acquireSessionLock, releaseSessionLock } from '../utils/session-lock';
+import { isKnownAnimal } from '../utils/animals';
+import { resolveSessionPolicy } from '../utils/session-policy';
+import { persistOrEnqueueSession } from '../utils/session-outbox';
+import { validateMilkYield } from '../utils/yield-validation';
+import { ValidationIssue } from '../utils/payload-validation';
+import { startSessionTimer, stopSessionTimer } from '../socket/session-timer';
+import { getSocketIO } from '../socket/socket-handler';
+
+/**
+ * Who issues a session command
+ */
+export interface SessionActor {
+  userId: string; // Authenticated user (from the socket handshake or bearer token)
+  device: DeviceInfo | null; // Issuing device, recorded in the session's timeline
+}
+
+/**
+ * Why a session command was rejected
+ */
+export type SessionErrorCode =
+  | 'ANIMAL_REQUIRED'
+  | 'ANIMAL_NOT_FOUND'
+  | 'SESSION_LOCK_FAILED'
+  | 'SESSION_NOT_FOUND'
+  | 'SESSION_CONFLICT'
+  | 'INVALID_YIELD';
+
+/**
+ * A rejected session command
+ * On conflict, session holds the current state so callers can resynchronize
+ */
+export interface SessionCommandError {
+  code: SessionErrorCode;
+  message: string;
+  sessionId?: string;
+  session?: ActiveSession;
+  details?: ValidationIssue[]; // Invalid fields (INVALID_YIELD)
+}
+
+/**
+ * Result of a session command
+ * Unexpected failures (storage errors) are thrown instead
+ */
+export type SessionCommandResult<T = { session: ActiveSession }> =
+  | ({ ok: true } & T)
+  | { ok: false; error: SessionCommandError };
+
+/**
+ * The latest action on a session, from its timeline
+ */
+const getLastAction = (session: ActiveSession): SessionLastAction | null => {
+  const event = session.events?.[session.events.length - 1];
+  if (!event) {
+    return null;
+  }
+
+  return {
+    type: event.type,
+    at: event.at,
+    performedBy: event.device || event.deviceId ? { deviceId: event.deviceId ?? null, name: event.device } : null,
+  };
+};
+
+/**
+ * Device that issued the latest action on a session (null: the server)
+ */
+const getPerformedBy = (session: ActiveSession): DeviceInfo | null => {
+  return getLastAction(session)?.performedBy ?? null;
+};
+
+/**
+ * Build the state payload sent to clients for a session
+ */
+export const toSessionState = (session: ActiveSession): SessionStateData => ({
+  sessionId: session.sessionId,
+  userId: session.userId,
+  animalId: session.animalId,
+  elapsedTime: getElapsedTime(session),
+  status: session.status,
+  startTime: session.startTime,
+  lastUpdateTime: session.lastUpdateTime,
+  version: session.version,
+  pauseReason: session.pauseReason ?? null,
+  lastAction: getLastAction(session),
+});
+
+/**
+ * SESSION_STARTED payload
+ */
+export const toStartedData = (session: ActiveSession): SessionStartedData => ({
+  sessionId: session.sessionId,
+  userId: session.userId,
+  animalId: session.animalId,
+  startTime: session.startTime,
+  elapsedTime: session.elapsedTime,
+  version: session.version,
+  performedBy: getPerformedBy(session),
+});
+
+/**
+ * SESSION_PAUSED payload
+ */
+export const toPausedData = (session: ActiveSession): SessionPausedData => ({
+  sessionId: session.sessionId,
+  userId: session.userId,
+  elapsedTime: session.elapsedTime,
+  version: session.version,
+  performedBy: getPerformedBy(session),
+});
+
+/**
+ * SESSION_RESUMED payload
+ */
+export const toResumedData = (session: ActiveSession): SessionResumedData => ({
+  sessionId: session.sessionId,
+  userId: session.userId,
+  elapsedTime: session.elapsedTime,
+  version: session.version,
+  performedBy: getPerformedBy(session),
+});
+
+/**
+ * SESSION_STOPPED payload
+ *
+ * @param session - Completed session (see finalizeSession)
+ * @param milkYield - Yield recorded when the session was stopped
+ */
+export const toStoppedData = (session: ActiveSession, milkYield: MilkYield | null): SessionStoppedData => ({
+  sessionId: session.sessionId,
+  userId: session.userId,
+  animalId: session.animalId,
+  totalElapsedTime: session.elapsedTime,
+  milkYield,
+  endReason: session.endReason ?? SessionEndReason.STOPPED,
+  performedBy: getPerformedBy(session),
+});
+
+/**
+ * Turn a failed state transition into a command error
+ */
+const toTransitionError = (
+  sessionId: string,
+  failure: Extract<TransitionResult, { ok: false }>
+): SessionCommandError => {
+  if (failure.reason === 'conflict') {
+    return {
+      code: 'SESSION_CONFLICT',
+      message: 'Session was changed by another action, please retry',
+      sessionId,
+      session: failure.session,
+    };
+  }
+
+  return { code: 'SESSION_NOT_FOUND', message: 'Session not found', sessionId };
+};
+
+/**
+ * Look up one of the actor's sessions
+ * Sessions of other users are reported as not found
+ */
+const getOwnedSession = async (
+  actor: SessionActor,
+  sessionId: string
+): Promise<SessionCommandResult> => {
+  const session = sessionId ? await getSession(sessionId) : null;
+  if (!session || session.userId !== actor.userId) {
+    return {
+      ok: false,
+      error: { code: 'SESSION_NOT_FOUND', message: 'Session not found', sessionId },
+    };
+  }
+  return { ok: true, session };
+};
+
+/**
+ * Start (or keep) the server-side timer of a session
+ */
+const ensureSessionTimer = (session: ActiveSession): void => {
+  const io = getSocketIO();
+  if (!io) {
+    throw new Error('Socket.IO server not initialized');
+  }
+  startSessionTimer(io, session.userId, session.sessionId);
+};
+
+/**
+ * Persist a completed session, stop its timer, clear its Redis state and
+ * release the animal's lock
+ *
+ * @param session - Session already marked completed (see completeSession)
+ * @param milkYield - Optional yield recorded when the session was stopped
+ */
+export const cleanUpCompletedSession = async (
+  session: ActiveSession,
+  milkYield: MilkYield | null = null
+): Promise<void> => {
+  // Persist completed session to database (with idempotency)
+  // If the write fails the session is queued in the outbox and replayed later
+  const persisted = await persistOrEnqueueSession(session, milkYield);
+  if (persisted && !persisted.fenced) {
+    console.log(`Session persisted: ${persisted.id} (created: ${persisted.created})`);
+  }
+
+  // Stop timer
+  stopSessionTimer(session.sessionId);
+
+  // Clear Redis state
+  await deleteSession(session);
+
+  // Release the animal's lock
+  await releaseSessionLock(session.animalId, getSessionLock(session));
+};
+
+/**
+ * Complete a session and clean it up
+ * Marking the session completed is atomic, so concurrent stops finalize it only once
+ *
+ * @param sessionId - Session to complete
+ * @param milkYield - Optional yield recorded when the session was stopped
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @param options - Optional end reason, end time and issuing device
+ * @returns Transition result with the completed session (final elapsed time included)
+ */
+export const finalizeSession = async (
+  sessionId: string,
+  milkYield: MilkYield | null = null,
+  expectedVersion?: number,
+  options: CompletionOptions = {}
+): Promise<TransitionResult> => {
+  const result = await completeSession(sessionId, expectedVersion, options);
+  if (result.ok) {
+    await cleanUpCompletedSession(result.session, milkYield);
+  }
+  return result;
+};
+
+/**
+ * Start a session for an animal
+ * Locks the animal, stores the session with its resolved policy and starts its timer
+ *
+ * @param actor - User starting the session
+ * @param animalId - Animal to milk
+ * @returns The new session
+ */
+export const startUserSession = async (
+  actor: SessionActor,
+  animalId: unknown
+): Promise<SessionCommandResult> => {
+  // Every session must be recorded against an animal
+  if (!animalId || typeof animalId !== 'string') {
+    return {
+      ok: false,
+      error: { code: 'ANIMAL_REQUIRED', message: 'animalId is required to start a session' },
+    };
+  }
+
+  if (!(await isKnownAnimal(animalId))) {
+    return {
+      ok: false,
+      error: { code: 'ANIMAL_NOT_FOUND', message: `Animal ${animalId} not found` },
+    };
+  }
+
+  // Auto-pause / auto-stop limits for this user and the animal's farm
+  const policy = await resolveSessionPolicy(actor.userId, animalId);
+
+  // Try to acquire the animal's lock
+  const lock = await acquireSessionLock(animalId);
+  if (!lock) {
+    return {
+      ok: false,
+      error: { code: 'SESSION_LOCK_FAILED', message: 'A session is already active for this animal' },
+    };
+  }
+
+  // Create new session in Redis and start its server-side timer
+  let session: ActiveSession;
+  try {
+    session = await createSession(actor.userId, animalId, lock, policy, actor.device);
+  } catch (error) {
+    // Don't leave the animal locked by a session that was never stored
+    await releaseSessionLock(animalId, lock);
+    throw error;
+  }
+  ensureSessionTimer(session);
+
+  return { ok: true, session };
+};
+
+/**
+ * Pause one of the actor's sessions
+ *
+ * @param actor - User pausing the session
+ * @param sessionId - Session to pause
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @returns The paused session
+ */
+export const pauseUserSession = async (
+  actor: SessionActor,
+  sessionId: string,
+  expectedVersion?: number
+): Promise<SessionCommandResult> => {
+  const owned = await getOwnedSession(actor, sessionId);
+  if (!owned.ok) {
+    return owned;
+  }
+
+  const result = await pauseSession(sessionId, expectedVersion, PauseReason.USER, actor.device);
+  if (!result.ok) {
+    return { ok: false, error: toTransitionError(sessionId, result) };
+  }
+  return { ok: true, session: result.session };
+};
+
+/**
+ * Resume one of the actor's sessions and make sure its timer runs
+ *
+ * @param actor - User resuming the session
+ * @param sessionId - Session to resume
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @returns The resumed session
+ */
+export const resumeUserSession = async (
+  actor: SessionActor,
+  sessionId: string,
+  expectedVersion?: number
+): Promise<SessionCommandResult> => {
+  const owned = await getOwnedSession(actor, sessionId);
+  if (!owned.ok) {
+    return owned;
+  }
+
+  const result = await resumeSession(sessionId, expectedVersion, actor.device);
+  if (!result.ok) {
+    return { ok: false, error: toTransitionError(sessionId, result) };
+  }
+  ensureSessionTimer(result.session);
+  return { ok: true, session: result.session };
+};
+
+/**
+ * Stop one of the actor's sessions, optionally recording its yield
+ * The session is persisted (or queued in the outbox) and its animal unlocked
+ *
+ * @param actor - User stopping the session
+ * @param sessionId - Session to stop
+ * @param rawMilkYield - Optional yield payload (validated)
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @returns The completed session and the recorded yield
+ */
+export const stopUserSession = async (
+  actor: SessionActor,
+  sessionId: string,
+  rawMilkYield?: unknown,
+  expectedVersion?: number
+): Promise<SessionCommandResult<{ session: ActiveSession; milkYield: MilkYield | null }>> => {
+  const owned = await getOwnedSession(actor, sessionId);
+  if (!owned.ok) {
+    return owned;
+  }
+
+  // Validate optional yield payload before touching session state
+  const yieldResult = validateMilkYield(rawMilkYield);
+  if (!yieldResult.valid) {
+    return {
+      ok: false,
+      error: {
+        code: 'INVALID_YIELD',
+        message: yieldResult.error.message,
+        sessionId,
+        details: yieldResult.error.details,
+      },
+    };
+  }
+  const milkYield = yieldResult.value;
+
+  const result = await finalizeSession(sessionId, milkYield, expectedVersion, { device: actor.device });
+  if (!result.ok) {
+    return { ok: false, error: toTransitionError(sessionId, result) };
+  }
+  return { ok: true, session: result.session, milkYield };
+};
+
+/**
+ * A user's running (active or paused) sessions
+ * Timers of active sessions are restarted (they stop when the user's last socket
+ * disconnects), so a client that syncs keeps its sessions ticking
+ *
+ * @param userId - User ID
+ * @returns Sessions ordered by start time (oldest first)
+ */
+export const syncUserSessions = async (userId: string): Promise<ActiveSession[]> => {
+  const sessions = await getUserSessions(userId);
+
+  const io = getSocketIO();
+  if (io) {
+    sessions
+      .filter((session) => session.status === SessionStatus.ACTIVE)
+      .forEach((session) => startSessionTimer(io, userId, session.sessionId));
+  }
+
+  return sessions;
+};
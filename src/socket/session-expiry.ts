@@ -0,0 +1,208 @@
+import { config } from '../config/env';
+import {
+  getAllSessions,
+  getExpiringSessions,
+  getSession,
+  getSessionLock,
+  touchSession,
+  SessionEndReason,
+  SessionStatus,
+} from '../utils/session-storage';
+import { renewSessionLock, releaseSessionLock } from '../utils/session-lock';
+import { finalizeSession, cleanUpCompletedSession, toStoppedData } from '../services/session-service';
+import { getSocketIO } from './socket-handler';
+import { getUserRoom, hasUserSockets } from './session-timer';
+import { enforceMaxDuration } from './session-policy-enforcement';
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+/**
+ * Refresh the TTL of paused sessions whose owner is still connected
+ * Timers only refresh running sessions, so without this a session paused for
+ * longer than its TTL would be finalized as expired while its owner still has
+ * the app open. Once the owner goes away the TTL runs down from the last refresh
+ *
+ * @returns Number of sessions refreshed
+ */
+export const touchPausedSessions = async (): Promise<number> => {
+  const io = getSocketIO();
+  if (!io) {
+    return 0;
+  }
+
+  let touched = 0;
+  try {
+    const connectedUsers = new Map<string, boolean>();
+    for (const session of await getAllSessions()) {
+      if (session.status !== SessionStatus.PAUSED) {
+        continue;
+      }
+
+      let connected = connectedUsers.get(session.userId);
+      if (connected === undefined) {
+        connected = await hasUserSockets(io, session.userId);
+        connectedUsers.set(session.userId, connected);
+      }
+      if (connected) {
+        await touchSession(session.sessionId);
+        touched++;
+      }
+    }
+  } catch (error: any) {
+    console.error('[Expiry] Failed to refresh paused sessions:', error?.message || error);
+  }
+  return touched;
+};
+
+/**
+ * Finalize sessions that are about to expire
+ * A session's TTL is refreshed on every transition, while its timer runs and,
+ * once paused, while its owner is connected, so a session close to expiry was
+ * abandoned. Instead of letting its key vanish,
+ * it is completed with endReason "expired", persisted (or queued in the outbox)
+ * and its owner's sockets are told it stopped
+ * The session ends when it was last active, not when the sweep found it
+ * Sessions are swept twice per window, so none expires between two sweeps
+ *
+ * @returns Number of sessions finalized
+ */
+export const sweepExpiringSessions = async (): Promise<number> => {
+  if (sweepInProgress) {
+    return 0;
+  }
+  sweepInProgress = true;
+
+  let finalized = 0;
+  try {
+    const windowSeconds = Math.ceil((config.sessionExpirySweepIntervalMs * 2) / 1000);
+    for (const { session, lastActiveAt } of await getExpiringSessions(windowSeconds)) {
+      // Completed but never cleaned up: finish the cleanup before the session vanishes
+      if (session.status === SessionStatus.COMPLETED) {
+        await cleanUpCompletedSession(session);
+        continue;
+      }
+
+      // Any transition since the sweep read the session means it is in use again
+      const result = await finalizeSession(session.sessionId, null, session.version, {
+        endReason: SessionEndReason.EXPIRED,
+        endTime: lastActiveAt,
+      });
+      if (!result.ok) {
+        continue;
+      }
+      finalized++;
+
+      console.warn(
+        `[Expiry] Finalized abandoned session ${session.sessionId} for user ${session.userId} ` +
+          `(last active ${new Date(lastActiveAt).toISOString()})`
+      );
+      getSocketIO()?.to(getUserRoom(session.userId)).emit('SESSION_STOPPED', toStoppedData(result.session, null));
+    }
+  } catch (error: any) {
+    console.error('[Expiry] Failed to sweep expiring sessions:', error?.message || error);
+  } finally {
+    sweepInProgress = false;
+  }
+  return finalized;
+};
+
+/**
+ * Renew the animal lock of every live session
+ * Locks are renewed here rather than by session timers, which only run for
+ * active sessions whose owner is connected: a paused session, or one whose
+ * owner is offline, keeps its animal locked until it ends
+ * A session that ended while its lock was being renewed gets the lock released again
+ *
+ * @returns Number of locks renewed
+ */
+export const renewSessionLocks = async (): Promise<number> => {
+  let renewed = 0;
+  try {
+    for (const session of await getAllSessions()) {
+      if (session.status === SessionStatus.COMPLETED) {
+        continue;
+      }
+
+      const lock = getSessionLock(session);
+      if (!(await renewSessionLock(session.animalId, lock))) {
+        console.warn(`[Expiry] Session ${session.sessionId} lost the lock for animal ${session.animalId} to another owner`);
+        continue;
+      }
+
+      // The session may have been completed (and its lock released) since it was read
+      const current = await getSession(session.sessionId);
+      if (!current || current.status === SessionStatus.COMPLETED) {
+        await releaseSessionLock(session.animalId, lock);
+        continue;
+      }
+      renewed++;
+    }
+  } catch (error: any) {
+    console.error('[Expiry] Failed to renew session locks:', error?.message || error);
+  }
+  return renewed;
+};
+
+/**
+ * Auto-stop running sessions that reached their maximum duration
+ * Timers enforce the limit every tick, but only while the owner is connected;
+ * this catches sessions left running by an owner who went offline
+ *
+ * @returns Number of sessions stopped
+ */
+export const stopOverdueSessions = async (): Promise<number> => {
+  const io = getSocketIO();
+  if (!io) {
+    return 0;
+  }
+
+  let stopped = 0;
+  try {
+    for (const session of await getAllSessions()) {
+      if (session.status === SessionStatus.ACTIVE && (await enforceMaxDuration(io, session))) {
+        stopped++;
+      }
+    }
+  } catch (error: any) {
+    console.error('[Expiry] Failed to stop overdue sessions:', error?.message || error);
+  }
+  return stopped;
+};
+
+/**
+ * One run of the sweeper
+ * Paused sessions are refreshed first so none is finalized while its owner is connected
+ * Overdue sessions are stopped at their maximum duration before any can be
+ * finalized as expired
+ */
+const runSessionSweep = async (): Promise<void> => {
+  await touchPausedSessions();
+  await stopOverdueSessions();
+  await sweepExpiringSessions();
+  await renewSessionLocks();
+};
+
+/**
+ * Start the background sweeper that finalizes abandoned sessions and keeps
+ * live sessions and their animal locks from lapsing
+ * The interval must stay well below the lock TTL (5 minutes)
+ */
+export const startSessionExpirySweeper = (intervalMs: number = config.sessionExpirySweepIntervalMs): void => {
+  if (sweepTimer) {
+    return;
+  }
+  sweepTimer = setInterval(() => {
+    void runSessionSweep();
+  }, intervalMs);
+};
+
+/**
+ * Stop the background session expiry sweeper
+ */
+export const stopSessionExpirySweeper = (): void => {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
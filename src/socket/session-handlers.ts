@@ -4,80 +4,178 @@ import {
   ServerToClientEvents,
   InterServerEvents,
   SocketData,
+  CommandResult,
+  ErrorData,
+  SessionStartedData,
+  SessionPausedData,
+  SessionResumedData,
+  SessionStoppedData,
 } from '../types/socket-events';
+import { ClientPayloadEvent, ClientEventPayload, clientEventSchemas } from '../schemas/socket-events';
+import { validatePayload } from '../utils/payload-validation';
+import { runCommandOnce } from '../utils/command-idempotency';
+import { getUserSessions, SessionStatus } from '../utils/session-storage';
 import {
-  createSession,
-  getSession,
-  pauseSession,
-  resumeSession,
-  deleteSession,
-  SessionStatus,
-} from '../utils/session-storage';
-import { acquireSessionLock, releaseSessionLock } from '../utils/session-lock';
-import {
-  startSessionTimer,
-  stopSessionTimer,
-  registerUserSocket,
-  unregisterUserSocket,
-} from './session-timer';
-import { persistCompletedSession } from '../utils/session-persistence';
+  SessionActor,
+  SessionCommandError,
+  startUserSession,
+  pauseUserSession,
+  resumeUserSession,
+  stopUserSession,
+  toSessionState,
+  toStartedData,
+  toPausedData,
+  toResumedData,
+  toStoppedData,
+  syncUserSessions,
+} from '../services/session-service';
+import { getUserRoom, startSessionTimer } from './session-timer';
 import { getSocketIO } from './socket-handler';
 
+type SessionSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/**
+ * Reports an error to the client (through the acknowledgement or the error event)
+ */
+type RejectFn = (error: ErrorData) => void;
+
+/**
+ * Build the reply function of a session command
+ * Results go through the acknowledgement; a client that sent none only
+ * hears about failures, through the error event
+ */
+const toResponder = <T>(socket: SessionSocket, ack: unknown) => {
+  return (result: CommandResult<T>): void => {
+    if (typeof ack === 'function') {
+      ack(result);
+    } else if (!result.ok) {
+      socket.emit('error', result.error);
+    }
+  };
+};
+
+/**
+ * Resolve the acting user from the authenticated socket
+ * A userId in the payload is ignored unless it matches the token's user
+ * Rejects and returns null on mismatch
+ */
+const resolveUserId = (
+  socket: SessionSocket,
+  payloadUserId: string | undefined,
+  reject: RejectFn,
+  sessionId?: string
+): string | null => {
+  const userId = socket.data.userId;
+  if (!userId || (payloadUserId !== undefined && payloadUserId !== userId)) {
+    reject({
+      message: 'Unauthorized',
+      code: 'UNAUTHORIZED',
+      sessionId,
+    });
+    return null;
+  }
+  return userId;
+};
+
+/**
+ * Resolve the actor of a session command sent over a socket
+ * Rejects and returns null if the payload names another user
+ */
+const resolveActor = (
+  socket: SessionSocket,
+  payloadUserId: string | undefined,
+  reject: RejectFn,
+  sessionId?: string
+): SessionActor | null => {
+  const userId = resolveUserId(socket, payloadUserId, reject, sessionId);
+  return userId ? { userId, device: socket.data.device ?? null } : null;
+};
+
+/**
+ * Validate the payload of a client event
+ * Rejects with an INVALID_PAYLOAD error with field-level details and returns null if it is malformed
+ */
+const parsePayload = <E extends ClientPayloadEvent>(
+  event: E,
+  data: unknown,
+  reject: RejectFn
+): ClientEventPayload<E> | null => {
+  const result = validatePayload(clientEventSchemas[event], data, `${event} payload`);
+  if (!result.valid) {
+    const sessionId = (data as { sessionId?: unknown } | null)?.sessionId;
+    reject({
+      message: result.error.message,
+      code: result.error.code,
+      sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+      details: result.error.details,
+    });
+    return null;
+  }
+  return result.value;
+};
+
+/**
+ * Every connected device of a user (on every instance, via the cluster adapter)
+ * Lifecycle events go there so all of the user's devices agree on session state
+ */
+const toUserDevices = (socket: SessionSocket, userId: string) => socket.nsp.to(getUserRoom(userId));
+
+/**
+ * Turn a rejected session command into its result
+ * On conflict the current state is sent along so the client can catch up
+ */
+const toCommandFailure = <T>(socket: SessionSocket, error: SessionCommandError): CommandResult<T> => {
+  if (error.code === 'SESSION_CONFLICT' && error.session) {
+    socket.emit('SESSION_STATE', toSessionState(error.session));
+  }
+  return {
+    ok: false,
+    error: {
+      message: error.message,
+      code: error.code,
+      sessionId: error.sessionId,
+      details: error.details,
+    },
+  };
+};
+
 /**
  * Handle SESSION_START event
  */
 export const handleSessionStart = async (
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  data: { userId: string }
+  socket: SessionSocket,
+  rawData: unknown,
+  ack: unknown
 ): Promise<void> => {
-  try {
-    const { userId } = data;
-
-    // Try to acquire lock
-    const lockAcquired = await acquireSessionLock(userId);
-    if (!lockAcquired) {
-      socket.emit('error', {
-        message: 'Session already active or lock could not be acquired',
-        code: 'SESSION_LOCK_FAILED',
-      });
-      return;
-    }
+  const respond = toResponder<SessionStartedData>(socket, ack);
+  const reject: RejectFn = (error) => respond({ ok: false, error });
 
-    // Check if session already exists
-    const existingSession = await getSession(userId);
-    if (existingSession) {
-      // Release lock if session exists
-      await releaseSessionLock(userId);
-      socket.emit('error', {
-        message: 'Session already exists',
-        code: 'SESSION_EXISTS',
-      });
+  const data = parsePayload('SESSION_START', rawData, reject);
+  if (!data) {
+    return;
+  }
+
+  try {
+    const actor = resolveActor(socket, data.userId, reject);
+    if (!actor) {
       return;
     }
 
-    // Create new session in Redis
-    const session = await createSession(userId);
-
-    // Register socket for this user
-    registerUserSocket(userId, socket.id);
-    socket.data.userId = userId;
-
-    // Start server-side timer
-    const io = getSocketIO();
-    if (!io) {
-      throw new Error('Socket.IO server not initialized');
-    }
-    startSessionTimer(io, userId);
+    const result = await runCommandOnce<SessionStartedData>(actor.userId, 'SESSION_START', data.requestId, async () => {
+      const result = await startUserSession(actor, data.animalId);
+      if (!result.ok) {
+        return toCommandFailure(socket, result.error);
+      }
 
-    // Emit SESSION_STARTED event
-    socket.emit('SESSION_STARTED', {
-      userId: session.userId,
-      startTime: session.startTime,
-      elapsedTime: session.elapsedTime,
+      // Emit SESSION_STARTED to all of the user's devices
+      const started = toStartedData(result.session);
+      toUserDevices(socket, actor.userId).emit('SESSION_STARTED', started);
+      return { ok: true, data: started };
     });
+    respond(result);
   } catch (error) {
     console.error('Error handling SESSION_START:', error);
-    socket.emit('error', {
+    reject({
       message: 'Failed to start session',
       code: 'SESSION_START_ERROR',
     });
@@ -88,41 +186,42 @@ export const handleSessionStart = async (
  * Handle SESSION_PAUSE event
  */
 export const handleSessionPause = async (
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  data: { userId: string }
+  socket: SessionSocket,
+  rawData: unknown,
+  ack: unknown
 ): Promise<void> => {
+  const respond = toResponder<SessionPausedData>(socket, ack);
+  const reject: RejectFn = (error) => respond({ ok: false, error });
+
+  const data = parsePayload('SESSION_PAUSE', rawData, reject);
+  if (!data) {
+    return;
+  }
+
   try {
-    const { userId } = data;
-
-    // Verify socket is associated with this user
-    if (socket.data.userId !== userId) {
-      socket.emit('error', {
-        message: 'Unauthorized',
-        code: 'UNAUTHORIZED',
-      });
+    const actor = resolveActor(socket, data.userId, reject, data.sessionId);
+    if (!actor) {
       return;
     }
 
-    // Pause session in Redis
-    const session = await pauseSession(userId);
-    if (!session) {
-      socket.emit('error', {
-        message: 'Session not found',
-        code: 'SESSION_NOT_FOUND',
-      });
-      return;
-    }
+    const result = await runCommandOnce<SessionPausedData>(actor.userId, 'SESSION_PAUSE', data.requestId, async () => {
+      const result = await pauseUserSession(actor, data.sessionId, data.version);
+      if (!result.ok) {
+        return toCommandFailure(socket, result.error);
+      }
 
-    // Emit SESSION_PAUSED event
-    socket.emit('SESSION_PAUSED', {
-      userId: session.userId,
-      elapsedTime: session.elapsedTime,
+      // Emit SESSION_PAUSED to all of the user's devices
+      const paused = toPausedData(result.session);
+      toUserDevices(socket, actor.userId).emit('SESSION_PAUSED', paused);
+      return { ok: true, data: paused };
     });
+    respond(result);
   } catch (error) {
     console.error('Error handling SESSION_PAUSE:', error);
-    socket.emit('error', {
+    reject({
       message: 'Failed to pause session',
       code: 'SESSION_PAUSE_ERROR',
+      sessionId: data.sessionId,
     });
   }
 };
@@ -131,48 +230,42 @@ export const handleSessionPause = async (
  * Handle SESSION_RESUME event
  */
 export const handleSessionResume = async (
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  data: { userId: string }
+  socket: SessionSocket,
+  rawData: unknown,
+  ack: unknown
 ): Promise<void> => {
-  try {
-    const { userId } = data;
-
-    // Verify socket is associated with this user
-    if (socket.data.userId !== userId) {
-      socket.emit('error', {
-        message: 'Unauthorized',
-        code: 'UNAUTHORIZED',
-      });
-      return;
-    }
+  const respond = toResponder<SessionResumedData>(socket, ack);
+  const reject: RejectFn = (error) => respond({ ok: false, error });
 
-    // Resume session in Redis
-    const session = await resumeSession(userId);
-    if (!session) {
-      socket.emit('error', {
-        message: 'Session not found',
-        code: 'SESSION_NOT_FOUND',
-      });
+  const data = parsePayload('SESSION_RESUME', rawData, reject);
+  if (!data) {
+    return;
+  }
+
+  try {
+    const actor = resolveActor(socket, data.userId, reject, data.sessionId);
+    if (!actor) {
       return;
     }
 
-    // Ensure timer is running
-    const io = getSocketIO();
-    if (!io) {
-      throw new Error('Socket.IO server not initialized');
-    }
-    startSessionTimer(io, userId);
+    const result = await runCommandOnce<SessionResumedData>(actor.userId, 'SESSION_RESUME', data.requestId, async () => {
+      const result = await resumeUserSession(actor, data.sessionId, data.version);
+      if (!result.ok) {
+        return toCommandFailure(socket, result.error);
+      }
 
-    // Emit SESSION_RESUMED event
-    socket.emit('SESSION_RESUMED', {
-      userId: session.userId,
-      elapsedTime: session.elapsedTime,
+      // Emit SESSION_RESUMED to all of the user's devices
+      const resumed = toResumedData(result.session);
+      toUserDevices(socket, actor.userId).emit('SESSION_RESUMED', resumed);
+      return { ok: true, data: resumed };
     });
+    respond(result);
   } catch (error) {
     console.error('Error handling SESSION_RESUME:', error);
-    socket.emit('error', {
+    reject({
       message: 'Failed to resume session',
       code: 'SESSION_RESUME_ERROR',
+      sessionId: data.sessionId,
     });
   }
 };
@@ -181,73 +274,42 @@ export const handleSessionResume = async (
  * Handle SESSION_STOP event
  */
 export const handleSessionStop = async (
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  data: { userId: string }
+  socket: SessionSocket,
+  rawData: unknown,
+  ack: unknown
 ): Promise<void> => {
-  try {
-    const { userId } = data;
-
-    // Verify socket is associated with this user
-    if (socket.data.userId !== userId) {
-      socket.emit('error', {
-        message: 'Unauthorized',
-        code: 'UNAUTHORIZED',
-      });
-      return;
-    }
+  const respond = toResponder<SessionStoppedData>(socket, ack);
+  const reject: RejectFn = (error) => respond({ ok: false, error });
 
-    // Get session before deleting
-    const session = await getSession(userId);
-    if (!session) {
-      socket.emit('error', {
-        message: 'Session not found',
-        code: 'SESSION_NOT_FOUND',
-      });
-      return;
-    }
+  const data = parsePayload('SESSION_STOP', rawData, reject);
+  if (!data) {
+    return;
+  }
 
-    // Update elapsed time one last time
-    const finalElapsedTime = session.status === SessionStatus.ACTIVE
-      ? session.elapsedTime + (Date.now() - session.lastUpdateTime) / 1000
-      : session.elapsedTime;
-
-    // Update session with final elapsed time before persisting
-    const finalSession: typeof session = {
-      ...session,
-      elapsedTime: finalElapsedTime,
-      status: SessionStatus.COMPLETED,
-    };
-
-    // Persist completed session to database (with idempotency)
-    const persisted = await persistCompletedSession(finalSession);
-    if (persisted) {
-      console.log(`Session persisted: ${persisted.id} (created: ${persisted.created})`);
+  try {
+    const actor = resolveActor(socket, data.userId, reject, data.sessionId);
+    if (!actor) {
+      return;
     }
-    // Continue with cleanup even if persistence fails (persisted will be null)
-
-    // Stop timer
-    stopSessionTimer(userId);
-
-    // Clear Redis state
-    await deleteSession(userId);
-
-    // Release lock
-    await releaseSessionLock(userId);
 
-    // Unregister socket
-    unregisterUserSocket(userId, socket.id);
-    socket.data.userId = undefined;
+    const result = await runCommandOnce<SessionStoppedData>(actor.userId, 'SESSION_STOP', data.requestId, async () => {
+      const result = await stopUserSession(actor, data.sessionId, data.milkYield, data.version);
+      if (!result.ok) {
+        return toCommandFailure(socket, result.error);
+      }
 
-    // Emit SESSION_STOPPED event
-    socket.emit('SESSION_STOPPED', {
-      userId,
-      totalElapsedTime: finalElapsedTime,
+      // Emit SESSION_STOPPED to all of the user's devices
+      const stopped = toStoppedData(result.session, result.milkYield);
+      toUserDevices(socket, actor.userId).emit('SESSION_STOPPED', stopped);
+      return { ok: true, data: stopped };
     });
+    respond(result);
   } catch (error) {
     console.error('Error handling SESSION_STOP:', error);
-    socket.emit('error', {
+    reject({
       message: 'Failed to stop session',
       code: 'SESSION_STOP_ERROR',
+      sessionId: data.sessionId,
     });
   }
 };
@@ -256,51 +318,29 @@ export const handleSessionStop = async (
  * Handle SESSION_SYNC event (for reconnection recovery)
  */
 export const handleSessionSync = async (
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  data: { userId: string }
+  socket: SessionSocket,
+  rawData: unknown
 ): Promise<void> => {
+  const reject: RejectFn = (error) => socket.emit('error', error);
+
+  const data = parsePayload('SESSION_SYNC', rawData, reject);
+  if (!data) {
+    return;
+  }
+
   try {
-    const { userId } = data;
-
-    // Get current session from Redis
-    const session = await getSession(userId);
-    if (!session) {
-      socket.emit('error', {
-        message: 'Session not found',
-        code: 'SESSION_NOT_FOUND',
-      });
+    const userId = resolveUserId(socket, data.userId, reject);
+    if (!userId) {
       return;
     }
 
-    // Register socket for this user if not already registered
-    if (socket.data.userId !== userId) {
-      registerUserSocket(userId, socket.id);
-      socket.data.userId = userId;
-    }
-
-    // Resume timer if session is active (recovery logic)
-    if (session.status === SessionStatus.ACTIVE) {
-      const io = getSocketIO();
-      if (io) {
-        startSessionTimer(io, userId);
-      }
-    }
+    // Get all of the user's sessions and resume timers for active ones (recovery logic)
+    const sessions = await syncUserSessions(userId);
 
-    // Emit SESSION_SYNC response with current state
+    // Emit SESSION_SYNC response with the full list of current sessions
     socket.emit('SESSION_SYNC', {
-      userId: session.userId,
-      elapsedTime: session.elapsedTime,
-      status: session.status,
-      startTime: session.startTime,
-    });
-
-    // Also emit SESSION_STATE for recovery
-    socket.emit('SESSION_STATE', {
-      userId: session.userId,
-      elapsedTime: session.elapsedTime,
-      status: session.status,
-      startTime: session.startTime,
-      lastUpdateTime: session.lastUpdateTime,
+      userId,
+      sessions: sessions.map(toSessionState),
     });
   } catch (error) {
     console.error('Error handling SESSION_SYNC:', error);
@@ -313,42 +353,32 @@ export const handleSessionSync = async (
 
 /**
  * Recover session state on reconnect
- * This is called automatically when a socket connects with a userId
+ * This is called automatically when an authenticated socket connects
  */
 export const recoverSessionOnReconnect = async (
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+  socket: SessionSocket,
   userId: string
 ): Promise<void> => {
   try {
-    // Get current session from Redis
-    const session = await getSession(userId);
-    if (!session) {
+    // Get current sessions from Redis
+    const sessions = await getUserSessions(userId);
+    if (sessions.length === 0) {
       // No active session to recover
       return;
     }
 
-    // Register socket for this user
-    registerUserSocket(userId, socket.id);
-    socket.data.userId = userId;
-
-    // Resume timer if session is active
-    if (session.status === SessionStatus.ACTIVE) {
-      const io = getSocketIO();
-      if (io) {
-        startSessionTimer(io, userId);
+    const io = getSocketIO();
+    sessions.forEach((session) => {
+      // Resume timer if session is active
+      if (io && session.status === SessionStatus.ACTIVE) {
+        startSessionTimer(io, userId, session.sessionId);
       }
-    }
 
-    // Emit SESSION_STATE for recovery
-    socket.emit('SESSION_STATE', {
-      userId: session.userId,
-      elapsedTime: session.elapsedTime,
-      status: session.status,
-      startTime: session.startTime,
-      lastUpdateTime: session.lastUpdateTime,
+      // Emit SESSION_STATE for recovery
+      socket.emit('SESSION_STATE', toSessionState(session));
     });
 
-    console.log(`Session recovered for user ${userId} on socket ${socket.id}`);
+    console.log(`Recovered ${sessions.length} session(s) for user ${userId} on socket ${socket.id}`);
   } catch (error) {
     console.error(`Error recovering session for user ${userId}:`, error);
   }
@@ -0,0 +1,131 @@
+import { Server as SocketIOServer } from 'socket.io';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+  SessionAutoActionData,
+} from '../types/socket-events';
+import {
+  ActiveSession,
+  getElapsedTime,
+  pauseSession,
+  PauseReason,
+  SessionEndReason,
+} from '../utils/session-storage';
+import { getDefaultSessionPolicy } from '../utils/session-policy';
+import { getLastHeartbeat } from '../utils/heartbeat';
+import { finalizeSession, toPausedData, toStoppedData } from '../services/session-service';
+import { getUserRoom } from './session-timer';
+
+type SessionServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/**
+ * Format a policy limit for messages, e.g. "30 min" or "45 s"
+ */
+const formatLimit = (seconds: number): string => {
+  return seconds >= 60 ? `${Math.round(seconds / 60)} min` : `${seconds} s`;
+};
+
+const emitAutoAction = (
+  io: SessionServer,
+  session: ActiveSession,
+  data: Omit<SessionAutoActionData, 'sessionId' | 'userId' | 'timestamp'>
+): void => {
+  io.to(getUserRoom(session.userId)).emit('SESSION_AUTO_ACTION', {
+    sessionId: session.sessionId,
+    userId: session.userId,
+    timestamp: Date.now(),
+    ...data,
+  });
+};
+
+/**
+ * Auto-stop a running session that reached its policy's maximum duration
+ * The session is finalized (persisted with endReason "max_duration") at exactly
+ * that duration, however late the check runs
+ * Called on every tick and by the session sweeper, which also covers sessions
+ * whose owner is offline (no timer runs for them)
+ *
+ * @param io - Socket.IO server
+ * @param session - ACTIVE session to check
+ * @returns true if the session was stopped
+ */
+export const enforceMaxDuration = async (io: SessionServer, session: ActiveSession): Promise<boolean> => {
+  const policy = session.policy ?? getDefaultSessionPolicy();
+  const now = Date.now();
+  const elapsedTime = getElapsedTime(session, now);
+  if (policy.maxDurationSeconds <= 0 || elapsedTime < policy.maxDurationSeconds) {
+    return false;
+  }
+
+  const result = await finalizeSession(session.sessionId, null, session.version, {
+    endReason: SessionEndReason.MAX_DURATION,
+    endTime: now - (elapsedTime - policy.maxDurationSeconds) * 1000,
+  });
+  if (!result.ok) {
+    return false;
+  }
+
+  console.log(`[Policy] Auto-stopped session ${session.sessionId} at its ${policy.maxDurationSeconds}s maximum`);
+  io.to(getUserRoom(session.userId)).emit('SESSION_STOPPED', toStoppedData(result.session, null));
+  emitAutoAction(io, session, {
+    action: 'stopped',
+    reason: 'max_duration',
+    thresholdSeconds: policy.maxDurationSeconds,
+    elapsedTime: result.session.elapsedTime,
+    message: `Stopped automatically after reaching the ${formatLimit(policy.maxDurationSeconds)} maximum duration`,
+  });
+  return true;
+};
+
+/**
+ * Apply a running session's policy
+ * - Auto-stop: see enforceMaxDuration
+ * - Auto-pause: once no client activity (heartbeat or state change) has been seen
+ *   for inactivityPauseSeconds the session is paused
+ * The user's devices get the regular state event followed by SESSION_AUTO_ACTION
+ * Transitions use the session's version, so a concurrent user action wins
+ *
+ * @param io - Socket.IO server
+ * @param session - ACTIVE session being ticked
+ * @param checkInactivity - Whether to look up the last heartbeat on this tick
+ * @returns true if the session was paused or stopped
+ */
+export const enforceSessionPolicy = async (
+  io: SessionServer,
+  session: ActiveSession,
+  checkInactivity: boolean
+): Promise<boolean> => {
+  if (await enforceMaxDuration(io, session)) {
+    return true;
+  }
+
+  const policy = session.policy ?? getDefaultSessionPolicy();
+  const now = Date.now();
+  if (!checkInactivity || policy.inactivityPauseSeconds <= 0) {
+    return false;
+  }
+
+  // A state change counts as activity too
+  const lastActiveAt = Math.max((await getLastHeartbeat(session.userId)) ?? 0, session.lastUpdateTime);
+  if (now - lastActiveAt < policy.inactivityPauseSeconds * 1000) {
+    return false;
+  }
+
+  const result = await pauseSession(session.sessionId, session.version, PauseReason.INACTIVITY);
+  if (!result.ok) {
+    return false;
+  }
+
+  console.log(`[Policy] Auto-paused session ${session.sessionId} after ${policy.inactivityPauseSeconds}s without activity`);
+  io.to(getUserRoom(session.userId)).emit('SESSION_PAUSED', toPausedData(result.session));
+  emitAutoAction(io, session, {
+    action: 'paused',
+    reason: 'inactivity',
+    thresholdSeconds: policy.inactivityPauseSeconds,
+    elapsedTime: result.session.elapsedTime,
+    message: `Paused automatically after ${formatLimit(policy.inactivityPauseSeconds)} without activity`,
+  });
+  return true;
+};
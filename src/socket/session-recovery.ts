@@ -0,0 +1,117 @@
+import { config } from '../config/env';
+import {
+  getAllSessions,
+  getSession,
+  getSessionLock,
+  pauseSession,
+  SessionStatus,
+} from '../utils/session-storage';
+import { renewSessionLock } from '../utils/session-lock';
+import { startSessionTimer, stopSessionTimer, hasUserSockets } from './session-timer';
+import { finalizeSession, cleanUpCompletedSession } from '../services/session-service';
+import { getSocketIO } from './socket-handler';
+
+/**
+ * Grace timers for sessions recovered at startup whose owners have not reconnected yet
+ * Key: sessionId, Value: { userId, timer }
+ */
+const orphanTimers = new Map<string, { userId: string; timer: NodeJS.Timeout }>();
+
+/**
+ * Auto-pause or finalize a recovered session whose owner never came back
+ */
+const handleOrphanedSession = async (sessionId: string): Promise<void> => {
+  orphanTimers.delete(sessionId);
+
+  try {
+    const io = getSocketIO();
+    const session = await getSession(sessionId);
+    if (!io || !session || (await hasUserSockets(io, session.userId))) {
+      return;
+    }
+
+    if (config.orphanedSessionAction === 'finalize') {
+      const result = await finalizeSession(sessionId);
+      if (!result.ok) {
+        return;
+      }
+      console.warn(`[Recovery] Finalized orphaned session ${sessionId} for user ${session.userId}`);
+      return;
+    }
+
+    stopSessionTimer(sessionId);
+    if (session.status === SessionStatus.ACTIVE && (await pauseSession(sessionId)).ok) {
+      console.warn(`[Recovery] Paused orphaned session ${sessionId} for user ${session.userId}`);
+    }
+  } catch (error: any) {
+    console.error(`[Recovery] Failed to handle orphaned session ${sessionId}:`, error?.message || error);
+  }
+};
+
+/**
+ * Cancel pending orphan handling for a user's sessions
+ * Called when the user connects, since their sessions are no longer orphaned
+ */
+export const clearOrphanTimers = (userId: string): void => {
+  orphanTimers.forEach((entry, sessionId) => {
+    if (entry.userId === userId) {
+      clearTimeout(entry.timer);
+      orphanTimers.delete(sessionId);
+    }
+  });
+};
+
+/**
+ * Rebuild session state after a server restart
+ * - Cleans up sessions that were completed but not yet persisted and deleted
+ * - Renews each session's animal lock (taking it back if it lapsed while the server was down)
+ * - Restarts timers for active sessions so ticks resume as soon as their users reconnect
+ * - Schedules orphan handling for sessions whose owners do not reconnect within
+ *   ORPHANED_SESSION_GRACE_SECONDS (auto-pause or finalize, per ORPHANED_SESSION_ACTION)
+ *
+ * @returns Number of sessions recovered
+ */
+export const recoverSessionsOnStartup = async (): Promise<number> => {
+  try {
+    const io = getSocketIO();
+    if (!io) {
+      throw new Error('Socket.IO server not initialized');
+    }
+
+    const sessions = await getAllSessions();
+    for (const session of sessions) {
+      // The server stopped between completing the session and cleaning it up
+      if (session.status === SessionStatus.COMPLETED) {
+        await cleanUpCompletedSession(session);
+        continue;
+      }
+
+      if (!(await renewSessionLock(session.animalId, getSessionLock(session)))) {
+        console.warn(`[Recovery] Session ${session.sessionId} lost the lock for animal ${session.animalId}`);
+      }
+
+      if (session.status === SessionStatus.ACTIVE) {
+        startSessionTimer(io, session.userId, session.sessionId);
+      }
+
+      if (!orphanTimers.has(session.sessionId) && !(await hasUserSockets(io, session.userId))) {
+        const timer = setTimeout(() => {
+          void handleOrphanedSession(session.sessionId);
+        }, config.orphanedSessionGraceSeconds * 1000);
+        orphanTimers.set(session.sessionId, { userId: session.userId, timer });
+      }
+    }
+
+    if (sessions.length > 0) {
+      console.log(
+        `[Recovery] Recovered ${sessions.length} session(s); orphaned sessions will be ` +
+          `${config.orphanedSessionAction === 'finalize' ? 'finalized' : 'paused'} after ` +
+          `${config.orphanedSessionGraceSeconds}s`
+      );
+    }
+    return sessions.length;
+  } catch (error: any) {
+    console.error('[Recovery] Failed to recover sessions on startup:', error?.message || error);
+    return 0;
+  }
+};
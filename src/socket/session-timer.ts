@@ -1,4 +1,4 @@
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Server as SocketIOServer } from 'socket.io';
 import {
   ClientToServerEvents,
   ServerToClientEvents,
@@ -6,114 +6,157 @@ import {
   SocketData,
 } from '../types/socket-events';
 import {
-  createSession,
   getSession,
-  updateElapsedTime,
-  pauseSession,
-  resumeSession,
-  deleteSession,
+  getElapsedTime,
+  touchSession,
   SessionStatus,
 } from '../utils/session-storage';
-import { acquireSessionLock, releaseSessionLock } from '../utils/session-lock';
+import { claimTimerLease, releaseTimerLease, TIMER_LEASE_RENEW_TICKS } from '../utils/timer-lease';
+import { enforceSessionPolicy } from './session-policy-enforcement';
 
 /**
- * Map to track active timers for each user
- * Key: userId, Value: NodeJS.Timeout
+ * How often a running session's TTL is extended (every 60 ticks / 1 minute)
  */
-const activeTimers = new Map<string, NodeJS.Timeout>();
+const TTL_REFRESH_TICKS = 60;
 
 /**
- * Map to track socket IDs associated with user sessions
- * Key: userId, Value: Set of socket IDs
+ * How often a running session's last heartbeat is checked for the auto-pause policy (every 5 ticks)
  */
-const userSockets = new Map<string, Set<string>>();
+const INACTIVITY_CHECK_TICKS = 5;
+
+type SessionServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/**
+ * Map to track active timers for each session
+ * Key: sessionId, Value: { userId, timer }
+ */
+const activeTimers = new Map<string, { userId: string; timer: NodeJS.Timeout }>();
+
+/**
+ * Map to track which sessions are being ticked for each user
+ * Key: userId, Value: Set of session IDs
+ */
+const userTimers = new Map<string, Set<string>>();
 
 /**
- * Start timer for a user session
- * Emits SESSION_TICK every second when session is ACTIVE
+ * Room joined by every socket of a user (on every instance, via the cluster adapter)
+ */
+export const getUserRoom = (userId: string): string => {
+  return `user:${userId}`;
+};
+
+/**
+ * Start timer for a session
+ * Emits SESSION_TICK to the user's room every second when session is ACTIVE
+ * Ticks only read the session; elapsed time is derived from its timestamps and
+ * Redis is written on state transitions (plus a periodic TTL refresh)
+ * Several instances may run a timer for the same session, but only the one
+ * holding the session's timer lease ticks it (and applies its auto-pause /
+ * auto-stop policy)
  */
 export const startSessionTimer = (
-  io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  userId: string
+  io: SessionServer,
+  userId: string,
+  sessionId: string
 ): void => {
   // Clear existing timer if any
-  stopSessionTimer(userId);
+  stopSessionTimer(sessionId);
 
+  let ticks = 0;
+  let leaseHeld = false;
   const timer = setInterval(async () => {
     try {
-      const session = await getSession(userId);
-      
+      // Claim the lease on the first tick, then renew it every few ticks
+      if (ticks % TIMER_LEASE_RENEW_TICKS === 0) {
+        leaseHeld = await claimTimerLease(sessionId);
+      }
+      ticks++;
+
+      // Another instance owns this session's ticks
+      if (!leaseHeld) {
+        return;
+      }
+
+      const session = await getSession(sessionId);
+
       if (!session) {
         // Session doesn't exist, stop timer
-        stopSessionTimer(userId);
+        stopSessionTimer(sessionId);
         return;
       }
 
-      // Only increment timer when status is ACTIVE (RUNNING)
+      // Only tick when status is ACTIVE (RUNNING)
       if (session.status === SessionStatus.ACTIVE) {
-        // Update elapsed time in Redis
-        const updatedSession = await updateElapsedTime(userId);
-        
-        if (updatedSession) {
-          // Emit SESSION_TICK to all sockets for this user
-          const sockets = userSockets.get(userId);
-          if (sockets && sockets.size > 0) {
-            const tickData = {
-              userId,
-              elapsedTime: updatedSession.elapsedTime,
-              status: updatedSession.status,
-            };
-            // Emit to each socket for this user
-            sockets.forEach((socketId) => {
-              const socket = io.sockets.sockets.get(socketId);
-              if (socket) {
-                socket.emit('SESSION_TICK', tickData);
-              }
-            });
-          }
+        // Auto-stop at the maximum duration, auto-pause when the user is inactive
+        if (await enforceSessionPolicy(io, session, ticks % INACTIVITY_CHECK_TICKS === 0)) {
+          return;
         }
+
+        // Keep the session from expiring while it runs
+        if (ticks % TTL_REFRESH_TICKS === 0) {
+          await touchSession(sessionId);
+        }
+
+        // Emit SESSION_TICK to all of the user's sockets, on any instance
+        io.to(getUserRoom(userId)).emit('SESSION_TICK', {
+          sessionId,
+          userId,
+          elapsedTime: getElapsedTime(session),
+          status: session.status,
+        });
       }
     } catch (error) {
-      console.error(`Error in session timer for user ${userId}:`, error);
+      console.error(`Error in session timer for session ${sessionId}:`, error);
     }
   }, 1000); // Emit every second
 
-  activeTimers.set(userId, timer);
+  activeTimers.set(sessionId, { userId, timer });
+  if (!userTimers.has(userId)) {
+    userTimers.set(userId, new Set());
+  }
+  userTimers.get(userId)!.add(sessionId);
 };
 
 /**
- * Stop timer for a user session
+ * Stop timer for a session
  */
-export const stopSessionTimer = (userId: string): void => {
-  const timer = activeTimers.get(userId);
-  if (timer) {
-    clearInterval(timer);
-    activeTimers.delete(userId);
+export const stopSessionTimer = (sessionId: string): void => {
+  const entry = activeTimers.get(sessionId);
+  if (entry) {
+    clearInterval(entry.timer);
+    activeTimers.delete(sessionId);
+    void releaseTimerLease(sessionId);
+
+    const sessionIds = userTimers.get(entry.userId);
+    if (sessionIds) {
+      sessionIds.delete(sessionId);
+      if (sessionIds.size === 0) {
+        userTimers.delete(entry.userId);
+      }
+    }
   }
 };
 
 /**
- * Register a socket for a user
+ * Stop all timers running for a user's sessions on this instance
  */
-export const registerUserSocket = (userId: string, socketId: string): void => {
-  if (!userSockets.has(userId)) {
-    userSockets.set(userId, new Set());
+export const stopUserTimers = (userId: string): void => {
+  const sessionIds = userTimers.get(userId);
+  if (sessionIds) {
+    Array.from(sessionIds).forEach((sessionId) => stopSessionTimer(sessionId));
   }
-  userSockets.get(userId)!.add(socketId);
 };
 
 /**
- * Unregister a socket for a user
+ * Check whether a user has any sockets connected to any instance
+ * Errs on the side of "connected" if the cluster cannot be queried
  */
-export const unregisterUserSocket = (userId: string, socketId: string): void => {
-  const sockets = userSockets.get(userId);
-  if (sockets) {
-    sockets.delete(socketId);
-    if (sockets.size === 0) {
-      userSockets.delete(userId);
-      // Stop timer if no sockets are connected
-      stopSessionTimer(userId);
-    }
+export const hasUserSockets = async (io: SessionServer, userId: string): Promise<boolean> => {
+  try {
+    const sockets = await io.in(getUserRoom(userId)).fetchSockets();
+    return sockets.length > 0;
+  } catch (error) {
+    console.error(`Failed to look up sockets for user ${userId}:`, error);
+    return true;
   }
 };
-
@@ -0,0 +1,38 @@
+import { Socket } from 'socket.io';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+} from '../types/socket-events';
+import { verifyAuthToken } from '../utils/auth';
+import { identifyDevice } from '../utils/device';
+
+/**
+ * Socket.IO middleware authenticating the handshake
+ * Expects the token in `handshake.auth.token` and sets socket.data.userId
+ * from the verified token; unauthenticated connections are rejected
+ * Also records the device (handshake.auth.deviceId and deviceName, or the
+ * user agent) as socket.data.device
+ */
+export const socketAuthMiddleware = (
+  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+  next: (err?: Error) => void
+): void => {
+  const token = socket.handshake.auth?.token;
+  const payload = typeof token === 'string' ? verifyAuthToken(token) : null;
+
+  if (!payload) {
+    next(new Error('UNAUTHORIZED'));
+    return;
+  }
+
+  socket.data.userId = payload.sub;
+  const device = identifyDevice(
+    socket.handshake.auth?.deviceId,
+    socket.handshake.auth?.deviceName,
+    socket.handshake.headers['user-agent']
+  );
+  socket.data.device = { deviceId: device.deviceId, name: device.name ?? socket.id };
+  next();
+};
@@ -1,10 +1,12 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import {
   ClientToServerEvents,
   ServerToClientEvents,
   InterServerEvents,
   SocketData,
+  PROTOCOL_VERSION,
 } from '../types/socket-events';
 import {
   handleSessionStart,
@@ -14,7 +16,12 @@ import {
   handleSessionSync,
   recoverSessionOnReconnect,
 } from './session-handlers';
-import { unregisterUserSocket, stopSessionTimer } from './session-timer';
+import { getUserRoom, hasUserSockets, stopUserTimers } from './session-timer';
+import { socketAuthMiddleware } from './socket-auth';
+import { socketProtocolMiddleware } from './socket-protocol';
+import { clearOrphanTimers } from './session-recovery';
+import { getRedisClient, isRedisConnected } from '../utils/redis';
+import { recordHeartbeat } from '../utils/heartbeat';
 
 let io: SocketIOServer<
   ClientToServerEvents,
@@ -23,6 +30,9 @@ let io: SocketIOServer<
   SocketData
 > | null = null;
 
+// Whether the Redis adapter is connecting this server to other instances
+let clusterAdapterEnabled = false;
+
 /**
  * Initialize Socket.IO server
  * 
@@ -54,30 +64,42 @@ export const initializeSocketIO = (
     transports: ['websocket', 'polling'],
   });
 
+  // Reject clients speaking an unsupported protocol version, then authenticate
+  // every handshake before the connection is accepted
+  io.use(socketProtocolMiddleware);
+  io.use(socketAuthMiddleware);
+
   // Connection handling
   io.on('connection', (socket) => {
-    console.log(`Client connected: ${socket.id}`);
-
-    // Check for userId in handshake query (for reconnection recovery)
-    const userId = socket.handshake.query.userId as string | undefined;
-    if (userId) {
-      // Attempt to recover session on reconnect
-      recoverSessionOnReconnect(socket, userId).catch((error) => {
-        console.error(`Failed to recover session for user ${userId}:`, error);
-      });
-    }
+    // userId is always set by socketAuthMiddleware
+    const userId = socket.data.userId!;
+    console.log(`Client connected: ${socket.id} (user ${userId})`);
+
+    socket.join(getUserRoom(userId));
+
+    // The user is back, so sessions recovered at startup are no longer orphaned
+    clearOrphanTimers(userId);
+
+    // Connecting counts as activity for the auto-pause policy
+    void recordHeartbeat(userId);
+
+    // Attempt to recover sessions on reconnect
+    recoverSessionOnReconnect(socket, userId).catch((error) => {
+      console.error(`Failed to recover session for user ${userId}:`, error);
+    });
 
     // Send connection confirmation
     socket.emit('connected', {
       socketId: socket.id,
       timestamp: Date.now(),
+      protocolVersion: PROTOCOL_VERSION,
     });
 
     // Register session event handlers
-    socket.on('SESSION_START', (data) => handleSessionStart(socket, data));
-    socket.on('SESSION_PAUSE', (data) => handleSessionPause(socket, data));
-    socket.on('SESSION_RESUME', (data) => handleSessionResume(socket, data));
-    socket.on('SESSION_STOP', (data) => handleSessionStop(socket, data));
+    socket.on('SESSION_START', (data, ack) => handleSessionStart(socket, data, ack));
+    socket.on('SESSION_PAUSE', (data, ack) => handleSessionPause(socket, data, ack));
+    socket.on('SESSION_RESUME', (data, ack) => handleSessionResume(socket, data, ack));
+    socket.on('SESSION_STOP', (data, ack) => handleSessionStop(socket, data, ack));
     socket.on('SESSION_SYNC', (data) => handleSessionSync(socket, data));
 
     // Handle ping
@@ -85,16 +107,21 @@ export const initializeSocketIO = (
       socket.emit('pong');
     });
 
+    // The client reports user activity (sessions of inactive users are auto-paused)
+    socket.on('HEARTBEAT', () => {
+      void recordHeartbeat(userId);
+    });
+
     // Handle disconnect
     socket.on('disconnect', (reason) => {
       console.log(`Client disconnected: ${socket.id}, reason: ${reason}`);
       
-      // Clean up user session if socket was associated with a user
+      // Stop the user's timers once their last socket (on any instance) is gone
       const userId = socket.data.userId;
       if (userId) {
-        unregisterUserSocket(userId, socket.id);
-        // Note: We don't stop the timer here because other sockets might still be connected
-        // The timer will be stopped automatically when no sockets remain
+        handleUserDisconnect(userId).catch((error) => {
+          console.error(`Failed to clean up timers for user ${userId}:`, error);
+        });
       }
     });
 
@@ -104,9 +131,62 @@ export const initializeSocketIO = (
     });
   });
 
+  // Another instance saw the user's last socket disconnect
+  io.on('USER_OFFLINE', ({ userId }) => {
+    stopUserTimers(userId);
+  });
+
   return io;
 };
 
+/**
+ * Stop a user's timers if none of their sockets remain connected
+ * Other instances are told to do the same
+ */
+const handleUserDisconnect = async (userId: string): Promise<void> => {
+  if (!io || (await hasUserSockets(io, userId))) {
+    return;
+  }
+
+  stopUserTimers(userId);
+  if (clusterAdapterEnabled) {
+    io.serverSideEmit('USER_OFFLINE', { userId });
+  }
+};
+
+/**
+ * Connect the Socket.IO server to other instances through Redis pub/sub
+ * Rooms, broadcasts and fetchSockets() then span every instance sharing the Redis server
+ * Without Redis the server keeps the default in-memory adapter (single instance only)
+ */
+export const enableClusterAdapter = async (): Promise<boolean> => {
+  if (!io || clusterAdapterEnabled) {
+    return clusterAdapterEnabled;
+  }
+
+  try {
+    const redisAvailable = await isRedisConnected();
+    if (!redisAvailable) {
+      console.warn('Redis unavailable - Socket.IO running without the cluster adapter (single instance only)');
+      return false;
+    }
+
+    const pubClient = getRedisClient().duplicate();
+    const subClient = pubClient.duplicate();
+    pubClient.on('error', (error) => console.error('Socket.IO adapter Redis error:', error.message));
+    subClient.on('error', (error) => console.error('Socket.IO adapter Redis error:', error.message));
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+
+    io.adapter(createAdapter(pubClient, subClient));
+    clusterAdapterEnabled = true;
+    console.log('Socket.IO cluster adapter enabled (Redis)');
+    return true;
+  } catch (error: any) {
+    console.error('Failed to enable Socket.IO cluster adapter:', error?.message || error);
+    return false;
+  }
+};
+
 /**
  * Get the Socket.IO server instance
  * 
@@ -128,5 +208,6 @@ export const closeSocketIO = async (): Promise<void> => {
   if (io) {
     io.close();
     io = null;
+    clusterAdapterEnabled = false;
   }
 };
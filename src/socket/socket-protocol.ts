@@ -0,0 +1,58 @@
+import { Socket } from 'socket.io';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+  HandshakeErrorCode,
+  ProtocolErrorData,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+} from '../types/socket-events';
+
+/**
+ * Build a connect error; socket.io sends `data` along to the client's connect_error handler
+ */
+const toHandshakeError = (code: HandshakeErrorCode, data: ProtocolErrorData): Error => {
+  return Object.assign(new Error(code), { data });
+};
+
+/**
+ * Socket.IO middleware checking the client's protocol version
+ * Expects `handshake.auth.protocolVersion`; clients sent before the check existed
+ * have none and are treated as outdated. Runs before authentication, so an old
+ * client is told to update rather than failing on anything else.
+ */
+export const socketProtocolMiddleware = (
+  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+  next: (err?: Error) => void
+): void => {
+  const version = socket.handshake.auth?.protocolVersion;
+  const clientVersion = Number.isInteger(version) ? (version as number) : null;
+
+  if (clientVersion === null || clientVersion < MIN_PROTOCOL_VERSION) {
+    next(
+      toHandshakeError('PROTOCOL_OUTDATED', {
+        message: 'This version of the app is no longer supported. Please update (reload the page) to continue.',
+        clientVersion,
+        serverVersion: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+      })
+    );
+    return;
+  }
+
+  if (clientVersion > PROTOCOL_VERSION) {
+    next(
+      toHandshakeError('PROTOCOL_UNSUPPORTED', {
+        message: 'The server is being updated. Please try again in a few minutes.',
+        clientVersion,
+        serverVersion: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+      })
+    );
+    return;
+  }
+
+  next();
+};
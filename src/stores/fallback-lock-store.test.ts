@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { LockStore } from './types';
+import { createMemoryLockStore } from './memory-lock-store';
+import { createFallbackLockStore } from './fallback-lock-store';
+
+const unavailableStore = new Proxy({} as LockStore, {
+  get: () => async () => {
+    throw new Error('Store unavailable');
+  },
+});
+
+describe('fallback lock store fencing tokens', () => {
+  it('issues tokens above persisted ones while the primary is unavailable', async () => {
+    const store = createFallbackLockStore(unavailableStore, createMemoryLockStore(async () => 41));
+
+    expect(await store.nextFencingToken('animal-1')).toBe(42);
+  });
+});
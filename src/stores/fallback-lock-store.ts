@@ -0,0 +1,115 @@
+import { LockStore, LockReconcileReport } from './types';
+import { MemoryLockStore } from './memory-lock-store';
+
+/**
+ * Run an operation against the primary store, or null if it is unavailable
+ */
+const tryPrimary = async <T>(operation: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await operation();
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Lock store that uses a primary store (Redis) and falls back to memory
+ * while the primary is unavailable
+ * Locks taken in memory stay there until reconcile() moves them into the
+ * primary store, so an animal counts as locked if either store holds its lock
+ *
+ * The fallback should be seeded with persisted fencing tokens (see createMemoryLockStore):
+ * its counters start from scratch, below tokens the primary already issued
+ *
+ * @param primary - Preferred store
+ * @param fallback - In-memory store used while the primary is unavailable
+ */
+export const createFallbackLockStore = (primary: LockStore, fallback: MemoryLockStore): LockStore => ({
+  acquire: async (animalId, lockValue, ttlSeconds) => {
+    try {
+      return await primary.acquire(animalId, lockValue, ttlSeconds);
+    } catch (error) {
+      return fallback.acquire(animalId, lockValue, ttlSeconds);
+    }
+  },
+
+  renew: async (animalId, lockValue, ttlSeconds) => {
+    try {
+      return await primary.renew(animalId, lockValue, ttlSeconds);
+    } catch (error) {
+      return fallback.renew(animalId, lockValue, ttlSeconds);
+    }
+  },
+
+  release: async (animalId, lockValue) => {
+    const released = (await tryPrimary(() => primary.release(animalId, lockValue))) ?? false;
+    // Also release from memory
+    return (await fallback.release(animalId, lockValue)) || released;
+  },
+
+  getHolder: async (animalId) => {
+    return (await tryPrimary(() => primary.getHolder(animalId))) ?? fallback.getHolder(animalId);
+  },
+
+  nextFencingToken: async (animalId) => {
+    try {
+      return await primary.nextFencingToken(animalId);
+    } catch (error) {
+      return fallback.nextFencingToken(animalId);
+    }
+  },
+
+  raiseFencingToken: async (animalId, token) => {
+    try {
+      await primary.raiseFencingToken(animalId, token);
+    } catch (error) {
+      await fallback.raiseFencingToken(animalId, token);
+    }
+  },
+
+  getPendingCount: () => {
+    return fallback.size();
+  },
+
+  /**
+   * Move locks taken in memory (while the primary was down) into the primary store
+   * Fencing counters are raised first so the primary never reissues a token handed out in memory
+   * A lock another owner took in the primary meanwhile wins over the in-memory one
+   */
+  reconcile: async () => {
+    const report: LockReconcileReport = { migrated: 0, alreadyPresent: 0, conflicts: 0, expired: 0, failed: 0 };
+
+    for (const { animalId, token } of fallback.getFencingTokens()) {
+      if ((await tryPrimary(() => primary.raiseFencingToken(animalId, token).then(() => true))) !== null) {
+        fallback.clearFencingToken(animalId);
+      }
+    }
+
+    for (const { animalId, lockValue, expiresAt } of fallback.getEntries()) {
+      const ttlSeconds = Math.ceil((expiresAt - Date.now()) / 1000);
+      if (ttlSeconds <= 0) {
+        await fallback.release(animalId, lockValue);
+        report.expired++;
+        continue;
+      }
+
+      try {
+        if ((await primary.getHolder(animalId)) === lockValue) {
+          report.alreadyPresent++;
+        } else if (await primary.renew(animalId, lockValue, ttlSeconds)) {
+          report.migrated++; // Taken in the primary since nobody held it there
+        } else {
+          report.conflicts++;
+          console.warn(`[Reconcile] Lock for animal ${animalId} is held by another owner in Redis; dropping in-memory lock`);
+        }
+      } catch (error) {
+        report.failed++;
+        continue;
+      }
+
+      await fallback.release(animalId, lockValue);
+    }
+
+    return report;
+  },
+});
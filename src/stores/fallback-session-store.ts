@@ -0,0 +1,161 @@
+import { ActiveSession } from '../utils/session-storage';
+import { SessionStore, SessionReconcileReport } from './types';
+import { MemorySessionStore } from './memory-session-store';
+
+/**
+ * Whether a buffered copy should win over the primary copy of a session
+ * Higher version wins; on equal versions the later lastUpdateTime wins
+ */
+const isNewerSession = (candidate: ActiveSession, current: ActiveSession): boolean => {
+  const candidateVersion = candidate.version ?? 0;
+  const currentVersion = current.version ?? 0;
+  if (candidateVersion !== currentVersion) {
+    return candidateVersion > currentVersion;
+  }
+  return candidate.lastUpdateTime > current.lastUpdateTime;
+};
+
+/**
+ * Run an operation against the primary store, or null if it is unavailable
+ */
+const tryPrimary = async <T>(operation: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await operation();
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Session store that uses a primary store (Redis) and falls back to memory
+ * while the primary is unavailable
+ * Sessions written to memory stay there until reconcile() moves them into the
+ * primary store, so reads and writes check both
+ *
+ * @param primary - Preferred store
+ * @param fallback - In-memory store used while the primary is unavailable
+ */
+export const createFallbackSessionStore = (
+  primary: SessionStore,
+  fallback: MemorySessionStore
+): SessionStore => ({
+  get: async (sessionId) => {
+    return (await tryPrimary(() => primary.get(sessionId))) ?? fallback.get(sessionId);
+  },
+
+  put: async (session, ttlSeconds) => {
+    try {
+      await primary.put(session, ttlSeconds);
+    } catch (error) {
+      await fallback.put(session, ttlSeconds);
+    }
+  },
+
+  compareAndSet: async (session, expectedVersion, ttlSeconds) => {
+    const result = await tryPrimary(() => primary.compareAndSet(session, expectedVersion, ttlSeconds));
+    if (result !== null && result !== 'missing') {
+      return result;
+    }
+    // The primary is down or the session lives in memory
+    return fallback.compareAndSet(session, expectedVersion, ttlSeconds);
+  },
+
+  touch: async (sessionId, ttlSeconds) => {
+    if (await tryPrimary(() => primary.touch(sessionId, ttlSeconds))) {
+      return true;
+    }
+    return fallback.touch(sessionId, ttlSeconds);
+  },
+
+  getTtl: async (sessionId) => {
+    return (await tryPrimary(() => primary.getTtl(sessionId))) ?? fallback.getTtl(sessionId);
+  },
+
+  delete: async (sessionId) => {
+    const deleted = (await tryPrimary(() => primary.delete(sessionId))) ?? false;
+    // Also delete from memory
+    return (await fallback.delete(sessionId)) || deleted;
+  },
+
+  listSessionIds: async () => {
+    const sessionIds = new Set((await tryPrimary(() => primary.listSessionIds())) ?? []);
+    (await fallback.listSessionIds()).forEach((sessionId) => sessionIds.add(sessionId));
+    return Array.from(sessionIds);
+  },
+
+  addUserSession: async (userId, sessionId) => {
+    try {
+      await primary.addUserSession(userId, sessionId);
+    } catch (error) {
+      await fallback.addUserSession(userId, sessionId);
+    }
+  },
+
+  removeUserSession: async (userId, sessionId) => {
+    await tryPrimary(() => primary.removeUserSession(userId, sessionId));
+    await fallback.removeUserSession(userId, sessionId);
+  },
+
+  getUserSessionIds: async (userId) => {
+    const sessionIds = new Set((await tryPrimary(() => primary.getUserSessionIds(userId))) ?? []);
+    (await fallback.getUserSessionIds(userId)).forEach((sessionId) => sessionIds.add(sessionId));
+    return Array.from(sessionIds);
+  },
+
+  getPendingCount: () => {
+    return fallback.size();
+  },
+
+  /**
+   * Move sessions written to memory (while the primary was down) into the primary store
+   * Conflicts with the primary copy are resolved by version, then by latest lastUpdateTime
+   * Reconciled sessions are removed from memory so the primary holds the only copy
+   */
+  reconcile: async () => {
+    const report: SessionReconcileReport = { migrated: 0, replaced: 0, keptRedis: 0, expired: 0, failed: 0 };
+
+    for (const { session, expiresAt } of fallback.getEntries()) {
+      const ttlSeconds = Math.ceil((expiresAt - Date.now()) / 1000);
+      if (ttlSeconds <= 0) {
+        await fallback.delete(session.sessionId);
+        report.expired++;
+        continue;
+      }
+
+      try {
+        const current = await primary.get(session.sessionId);
+        if (!current) {
+          await primary.put(session, ttlSeconds);
+          report.migrated++;
+        } else if (!isNewerSession(session, current)) {
+          report.keptRedis++;
+        } else if ((await primary.compareAndSet(session, current.version, ttlSeconds)) === 'written') {
+          report.replaced++;
+        } else {
+          // The primary changed while reconciling, so its copy is the newer one
+          report.keptRedis++;
+        }
+        await primary.addUserSession(session.userId, session.sessionId);
+      } catch (error) {
+        report.failed++;
+        continue;
+      }
+
+      await fallback.delete(session.sessionId);
+    }
+
+    // Move the remaining user index entries into the primary store
+    for (const userId of fallback.getIndexedUserIds()) {
+      for (const sessionId of await fallback.getUserSessionIds(userId)) {
+        if (await fallback.get(sessionId)) {
+          continue; // Still buffered (failed above)
+        }
+        if (await tryPrimary(() => primary.addUserSession(userId, sessionId).then(() => true))) {
+          await fallback.removeUserSession(userId, sessionId);
+        }
+      }
+    }
+
+    return report;
+  },
+});
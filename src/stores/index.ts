@@ -0,0 +1,75 @@
+import { config } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { SessionStore, LockStore } from './types';
+import { createRedisSessionStore } from './redis-session-store';
+import { createMemorySessionStore } from './memory-session-store';
+import { createFallbackSessionStore } from './fallback-session-store';
+import { createRedisLockStore } from './redis-lock-store';
+import { createMemoryLockStore } from './memory-lock-store';
+import { createFallbackLockStore } from './fallback-lock-store';
+
+export * from './types';
+
+let sessionStore: SessionStore | null = null;
+let lockStore: LockStore | null = null;
+
+/**
+ * Session store selected by SESSION_STORE
+ * - redis: Redis only (operations fail while Redis is down)
+ * - memory: this process only (single instance, development, testing handlers without Redis)
+ * - fallback: Redis, falling back to memory while Redis is down (default)
+ */
+export const getSessionStore = (): SessionStore => {
+  if (!sessionStore) {
+    switch (config.sessionStore) {
+      case 'redis':
+        sessionStore = createRedisSessionStore();
+        break;
+      case 'memory':
+        sessionStore = createMemorySessionStore();
+        break;
+      default:
+        sessionStore = createFallbackSessionStore(createRedisSessionStore(), createMemorySessionStore());
+    }
+  }
+  return sessionStore;
+};
+
+/**
+ * Highest fencing token recorded in an animal's session history
+ * Seeds in-memory fencing counters, which start from scratch in every process
+ *
+ * @returns The token, or 0 if there is none or the database is unavailable
+ */
+const getPersistedFencingToken = async (animalId: string): Promise<number> => {
+  try {
+    const result = await prisma.milkingSession.aggregate({
+      where: { animalId },
+      _max: { fencingToken: true },
+    });
+    return result._max.fencingToken ?? 0;
+  } catch (error: any) {
+    console.warn(`[Locks] Could not read persisted fencing token for animal ${animalId}:`, error?.message || error);
+    return 0;
+  }
+};
+
+/**
+ * Lock store selected by SESSION_STORE (same choices as the session store)
+ */
+export const getLockStore = (): LockStore => {
+  if (!lockStore) {
+    switch (config.sessionStore) {
+      case 'redis':
+        lockStore = createRedisLockStore();
+        break;
+      case 'memory':
+        lockStore = createMemoryLockStore(getPersistedFencingToken);
+        break;
+      default:
+        // Tokens issued during an outage start above history, not at 1
+        lockStore = createFallbackLockStore(createRedisLockStore(), createMemoryLockStore(getPersistedFencingToken));
+    }
+  }
+  return lockStore;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryLockStore } from './memory-lock-store';
+
+describe('memory lock store fencing tokens', () => {
+  it('starts above the highest persisted token of an animal', async () => {
+    const store = createMemoryLockStore(async (animalId) => (animalId === 'animal-1' ? 7 : 0));
+
+    expect(await store.nextFencingToken('animal-1')).toBe(8);
+    expect(await store.nextFencingToken('animal-1')).toBe(9);
+    expect(await store.nextFencingToken('animal-2')).toBe(1);
+  });
+
+  it('looks up the persisted token only for the first token of an animal', async () => {
+    let lookups = 0;
+    const store = createMemoryLockStore(async () => {
+      lookups++;
+      return 3;
+    });
+
+    await store.nextFencingToken('animal-1');
+    await store.nextFencingToken('animal-1');
+    expect(lookups).toBe(1);
+  });
+
+  it('keeps a raised token above the persisted one', async () => {
+    const store = createMemoryLockStore(async () => 3);
+    await store.raiseFencingToken('animal-1', 10);
+
+    expect(await store.nextFencingToken('animal-1')).toBe(11);
+  });
+});
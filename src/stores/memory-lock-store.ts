@@ -0,0 +1,127 @@
+import { LockStore } from './types';
+
+/**
+ * A lock held in memory with its expiry
+ */
+export interface MemoryLockEntry {
+  animalId: string;
+  lockValue: string;
+  expiresAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Lock store held in this process
+ * Every operation runs synchronously, so check-and-set cannot interleave
+ */
+export interface MemoryLockStore extends LockStore {
+  /**
+   * Every held lock, expired ones included
+   */
+  getEntries(): MemoryLockEntry[];
+
+  /**
+   * Last issued fencing token per animal
+   */
+  getFencingTokens(): Array<{ animalId: string; token: number }>;
+
+  /**
+   * Forget an animal's fencing counter (once another store has taken it over)
+   */
+  clearFencingToken(animalId: string): void;
+
+  /**
+   * Number of held locks
+   */
+  size(): number;
+}
+
+/**
+ * @param getPersistedFencingToken - Highest fencing token already recorded for an animal
+ * (e.g. in session history). Counters start above it, so tokens issued after a restart
+ * never fall below ones handed out before it
+ */
+export const createMemoryLockStore = (
+  getPersistedFencingToken?: (animalId: string) => Promise<number>
+): MemoryLockStore => {
+  const locks = new Map<string, MemoryLockEntry>(); // animalId -> lock
+  const fencingTokens = new Map<string, number>(); // animalId -> last issued fencing token
+
+  // Expired locks are dropped when they are next looked up
+  const getLiveLock = (animalId: string): MemoryLockEntry | undefined => {
+    const lock = locks.get(animalId);
+    if (lock && Date.now() >= lock.expiresAt) {
+      locks.delete(animalId);
+      return undefined;
+    }
+    return lock;
+  };
+
+  const setLock = (animalId: string, lockValue: string, ttlSeconds: number): void => {
+    locks.set(animalId, { animalId, lockValue, expiresAt: Date.now() + ttlSeconds * 1000 });
+  };
+
+  return {
+    acquire: async (animalId, lockValue, ttlSeconds) => {
+      if (getLiveLock(animalId)) {
+        return false; // Lock already exists and hasn't expired
+      }
+      setLock(animalId, lockValue, ttlSeconds);
+      return true;
+    },
+
+    renew: async (animalId, lockValue, ttlSeconds) => {
+      const lock = getLiveLock(animalId);
+      if (lock && lock.lockValue !== lockValue) {
+        return false;
+      }
+      setLock(animalId, lockValue, ttlSeconds);
+      return true;
+    },
+
+    release: async (animalId, lockValue) => {
+      if (locks.get(animalId)?.lockValue !== lockValue) {
+        return false;
+      }
+      return locks.delete(animalId);
+    },
+
+    getHolder: async (animalId) => {
+      return getLiveLock(animalId)?.lockValue ?? null;
+    },
+
+    nextFencingToken: async (animalId) => {
+      if (getPersistedFencingToken && !fencingTokens.has(animalId)) {
+        const persisted = await getPersistedFencingToken(animalId);
+        // Another call may have issued a token while the lookup ran
+        if ((fencingTokens.get(animalId) ?? 0) < persisted) {
+          fencingTokens.set(animalId, persisted);
+        }
+      }
+      const token = (fencingTokens.get(animalId) ?? 0) + 1;
+      fencingTokens.set(animalId, token);
+      return token;
+    },
+
+    raiseFencingToken: async (animalId, token) => {
+      if ((fencingTokens.get(animalId) ?? 0) < token) {
+        fencingTokens.set(animalId, token);
+      }
+    },
+
+    getEntries: () => {
+      return Array.from(locks.values());
+    },
+
+    getFencingTokens: () => {
+      return Array.from(fencingTokens.entries()).map(([animalId, token]) => ({ animalId, token }));
+    },
+
+    clearFencingToken: (animalId) => {
+      fencingTokens.delete(animalId);
+    },
+
+    size: () => {
+      return locks.size;
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import { ActiveSession } from '../utils/session-storage';
+import { SessionStore, CompareAndSetResult } from './types';
+
+/**
+ * A session held in memory with its expiry
+ */
+export interface MemorySessionEntry {
+  session: ActiveSession;
+  expiresAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Session store held in this process
+ * Every operation runs synchronously, so compare-and-set cannot interleave
+ */
+export interface MemorySessionStore extends SessionStore {
+  /**
+   * Every held session, expired ones included
+   */
+  getEntries(): MemorySessionEntry[];
+
+  /**
+   * Users with sessions in the index
+   */
+  getIndexedUserIds(): string[];
+
+  /**
+   * Number of held sessions
+   */
+  size(): number;
+}
+
+export const createMemorySessionStore = (): MemorySessionStore => {
+  const sessions = new Map<string, MemorySessionEntry>(); // sessionId -> entry
+  const userSessions = new Map<string, Set<string>>(); // userId -> session IDs
+
+  // Expired sessions are dropped when they are next looked up
+  const getLiveEntry = (sessionId: string): MemorySessionEntry | undefined => {
+    const entry = sessions.get(sessionId);
+    if (entry && Date.now() > entry.expiresAt) {
+      sessions.delete(sessionId);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    get: async (sessionId) => {
+      return getLiveEntry(sessionId)?.session ?? null;
+    },
+
+    put: async (session, ttlSeconds) => {
+      sessions.set(session.sessionId, { session, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+
+    compareAndSet: async (session, expectedVersion, ttlSeconds): Promise<CompareAndSetResult> => {
+      const entry = getLiveEntry(session.sessionId);
+      if (!entry) {
+        return 'missing';
+      }
+      if ((entry.session.version ?? 0) !== expectedVersion) {
+        return 'conflict';
+      }
+      sessions.set(session.sessionId, { session, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return 'written';
+    },
+
+    touch: async (sessionId, ttlSeconds) => {
+      const entry = getLiveEntry(sessionId);
+      if (!entry) {
+        return false;
+      }
+      entry.expiresAt = Date.now() + ttlSeconds * 1000;
+      return true;
+    },
+
+    getTtl: async (sessionId) => {
+      const entry = getLiveEntry(sessionId);
+      return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : null;
+    },
+
+    delete: async (sessionId) => {
+      return sessions.delete(sessionId);
+    },
+
+    listSessionIds: async () => {
+      return Array.from(sessions.keys()).filter((sessionId) => getLiveEntry(sessionId));
+    },
+
+    addUserSession: async (userId, sessionId) => {
+      if (!userSessions.has(userId)) {
+        userSessions.set(userId, new Set());
+      }
+      userSessions.get(userId)!.add(sessionId);
+    },
+
+    removeUserSession: async (userId, sessionId) => {
+      const sessionIds = userSessions.get(userId);
+      if (sessionIds) {
+        sessionIds.delete(sessionId);
+        if (sessionIds.size === 0) {
+          userSessions.delete(userId);
+        }
+      }
+    },
+
+    getUserSessionIds: async (userId) => {
+      return Array.from(userSessions.get(userId) ?? []);
+    },
+
+    getEntries: () => {
+      return Array.from(sessions.values());
+    },
+
+    getIndexedUserIds: () => {
+      return Array.from(userSessions.keys());
+    },
+
+    size: () => {
+      return sessions.size;
+    },
+  };
+};
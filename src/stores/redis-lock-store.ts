@@ -0,0 +1,79 @@
+import { withRedisClient } from '../utils/redis';
+import { getMilkingLockKey, getLockFenceKey } from '../constants/redis-keys';
+import { LockStore } from './types';
+
+// Renew the lock if this owner holds it, or take it back if it lapsed and nobody else took it
+const RENEW_LOCK_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current == ARGV[1] then
+  redis.call('EXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+if not current then
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Delete the lock only if this owner holds it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Raise the fencing counter to at least the given token
+const RAISE_FENCE_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+if current < tonumber(ARGV[1]) then
+  redis.call('SET', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+/**
+ * Lock store backed by Redis
+ * Locks live under lock:milking:{animalId} (SET NX with TTL); fencing counters
+ * under fence:milking:{animalId}
+ */
+export const createRedisLockStore = (): LockStore => ({
+  acquire: async (animalId, lockValue, ttlSeconds) => {
+    const result = await withRedisClient((client) =>
+      client.set(getMilkingLockKey(animalId), lockValue, { EX: ttlSeconds, NX: true })
+    );
+    return result === 'OK';
+  },
+
+  renew: async (animalId, lockValue, ttlSeconds) => {
+    const result = await withRedisClient((client) =>
+      client.eval(RENEW_LOCK_SCRIPT, {
+        keys: [getMilkingLockKey(animalId)],
+        arguments: [lockValue, String(ttlSeconds)],
+      })
+    );
+    return result === 1;
+  },
+
+  release: async (animalId, lockValue) => {
+    const result = await withRedisClient((client) =>
+      client.eval(RELEASE_LOCK_SCRIPT, { keys: [getMilkingLockKey(animalId)], arguments: [lockValue] })
+    );
+    return result === 1;
+  },
+
+  getHolder: (animalId) => {
+    return withRedisClient((client) => client.get(getMilkingLockKey(animalId)));
+  },
+
+  nextFencingToken: (animalId) => {
+    return withRedisClient((client) => client.incr(getLockFenceKey(animalId)));
+  },
+
+  raiseFencingToken: async (animalId, token) => {
+    await withRedisClient((client) =>
+      client.eval(RAISE_FENCE_SCRIPT, { keys: [getLockFenceKey(animalId)], arguments: [String(token)] })
+    );
+  },
+});
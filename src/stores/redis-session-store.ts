@@ -0,0 +1,96 @@
+import { withRedisClient } from '../utils/redis';
+import {
+  getActiveSessionKey,
+  getActiveSessionKeyPattern,
+  getUserSessionsKey,
+} from '../constants/redis-keys';
+import { ActiveSession } from '../utils/session-storage';
+import { SessionStore, CompareAndSetResult } from './types';
+
+// Write the session only if the stored version still matches
+// Returns 1 when written, 0 on version mismatch, -1 if the session is gone
+const COMPARE_AND_SET_SESSION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  return -1
+end
+local version = cjson.decode(current)['version'] or 0
+if version ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`;
+
+/**
+ * Session store backed by Redis
+ * Sessions live under active_session:{id} with a TTL; each user's sessions
+ * are indexed in the user_sessions:{userId} set
+ */
+export const createRedisSessionStore = (): SessionStore => ({
+  get: async (sessionId) => {
+    const sessionData = await withRedisClient((client) => client.get(getActiveSessionKey(sessionId)));
+    if (!sessionData) {
+      return null;
+    }
+    const session = JSON.parse(sessionData) as ActiveSession;
+    // Sessions written before versioning start at version 0
+    return { ...session, version: session.version ?? 0 };
+  },
+
+  put: async (session, ttlSeconds) => {
+    await withRedisClient((client) =>
+      client.set(getActiveSessionKey(session.sessionId), JSON.stringify(session), { EX: ttlSeconds })
+    );
+  },
+
+  compareAndSet: async (session, expectedVersion, ttlSeconds): Promise<CompareAndSetResult> => {
+    const result = await withRedisClient((client) =>
+      client.eval(COMPARE_AND_SET_SESSION_SCRIPT, {
+        keys: [getActiveSessionKey(session.sessionId)],
+        arguments: [String(expectedVersion), JSON.stringify(session), String(ttlSeconds)],
+      })
+    );
+    if (result === 1) {
+      return 'written';
+    }
+    return result === 0 ? 'conflict' : 'missing';
+  },
+
+  touch: (sessionId, ttlSeconds) => {
+    return withRedisClient((client) => client.expire(getActiveSessionKey(sessionId), ttlSeconds));
+  },
+
+  getTtl: async (sessionId) => {
+    // -2: no such key, -1: no TTL
+    const ttl = await withRedisClient((client) => client.ttl(getActiveSessionKey(sessionId)));
+    return ttl >= 0 ? ttl : null;
+  },
+
+  delete: async (sessionId) => {
+    return (await withRedisClient((client) => client.del(getActiveSessionKey(sessionId)))) > 0;
+  },
+
+  listSessionIds: () => {
+    const prefix = getActiveSessionKey('');
+    return withRedisClient(async (client) => {
+      const sessionIds: string[] = [];
+      for await (const key of client.scanIterator({ MATCH: getActiveSessionKeyPattern(), COUNT: 100 })) {
+        sessionIds.push(key.slice(prefix.length));
+      }
+      return sessionIds;
+    });
+  },
+
+  addUserSession: async (userId, sessionId) => {
+    await withRedisClient((client) => client.sAdd(getUserSessionsKey(userId), sessionId));
+  },
+
+  removeUserSession: async (userId, sessionId) => {
+    await withRedisClient((client) => client.sRem(getUserSessionsKey(userId), sessionId));
+  },
+
+  getUserSessionIds: (userId) => {
+    return withRedisClient((client) => client.sMembers(getUserSessionsKey(userId)));
+  },
+});
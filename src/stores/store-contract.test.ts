@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import { afterAll, describe, expect, it } from 'vitest';
+import { ActiveSession, SessionStatus } from '../utils/session-storage';
+import { withRedisClient, disconnectRedis } from '../utils/redis';
+import { SessionStore, LockStore } from './types';
+import { createMemorySessionStore } from './memory-session-store';
+import { createMemoryLockStore } from './memory-lock-store';
+import { createRedisSessionStore } from './redis-session-store';
+import { createRedisLockStore } from './redis-lock-store';
+import { createFallbackSessionStore } from './fallback-session-store';
+import { createFallbackLockStore } from './fallback-lock-store';
+
+/**
+ * Contract every SessionStore and LockStore implementation must meet
+ * The same suite runs against each implementation. Redis-backed stores are
+ * tested when REDIS_URL is set (environment or .env) and skipped otherwise
+ */
+
+// Every ID used by this run, so Redis keys it leaves behind can be found and deleted
+const RUN_ID = `contract-${randomUUID()}`;
+const uniqueId = (name: string): string => `${RUN_ID}-${name}-${randomUUID()}`;
+
+const redisAvailable = Boolean(process.env.REDIS_URL);
+
+/**
+ * A store whose backend is down: every operation rejects
+ */
+const createUnavailableStore = <T extends object>(): T =>
+  new Proxy({} as T, {
+    get: () => async () => {
+      throw new Error('Store unavailable');
+    },
+  });
+
+interface StoreImplementation {
+  name: string;
+  needsRedis: boolean;
+  createSessionStore: () => SessionStore;
+  createLockStore: () => LockStore;
+}
+
+const implementations: StoreImplementation[] = [
+  {
+    name: 'memory',
+    needsRedis: false,
+    createSessionStore: createMemorySessionStore,
+    createLockStore: createMemoryLockStore,
+  },
+  {
+    name: 'redis',
+    needsRedis: true,
+    createSessionStore: createRedisSessionStore,
+    createLockStore: createRedisLockStore,
+  },
+  {
+    name: 'fallback (primary available)',
+    needsRedis: false,
+    createSessionStore: () => createFallbackSessionStore(createMemorySessionStore(), createMemorySessionStore()),
+    createLockStore: () => createFallbackLockStore(createMemoryLockStore(), createMemoryLockStore()),
+  },
+  {
+    name: 'fallback (primary unavailable)',
+    needsRedis: false,
+    createSessionStore: () => createFallbackSessionStore(createUnavailableStore(), createMemorySessionStore()),
+    createLockStore: () => createFallbackLockStore(createUnavailableStore(), createMemoryLockStore()),
+  },
+  {
+    name: 'fallback (redis primary)',
+    needsRedis: true,
+    createSessionStore: () => createFallbackSessionStore(createRedisSessionStore(), createMemorySessionStore()),
+    createLockStore: () => createFallbackLockStore(createRedisLockStore(), createMemoryLockStore()),
+  },
+];
+
+const TTL_SECONDS = 60;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const buildSession = (overrides: Partial<ActiveSession> = {}): ActiveSession => {
+  const now = Date.now();
+  return {
+    sessionId: uniqueId('session'),
+    userId: uniqueId('user'),
+    animalId: uniqueId('animal'),
+    status: SessionStatus.ACTIVE,
+    startTime: now,
+    lastUpdateTime: now,
+    elapsedTime: 0,
+    totalPausedTime: 0,
+    version: 1,
+    lockOwnerToken: randomUUID(),
+    fencingToken: 1,
+    ...overrides,
+  };
+};
+
+describe.each(implementations)('$name store', ({ needsRedis, createSessionStore, createLockStore }) => {
+  describe.skipIf(needsRedis && !redisAvailable)('SessionStore', () => {
+    const store = createSessionStore();
+
+    it('returns null for an unknown session', async () => {
+      expect(await store.get(uniqueId('missing'))).toBeNull();
+    });
+
+    it('returns a stored session as it was put', async () => {
+      const session = buildSession({ policy: { inactivityPauseSeconds: 0, maxDurationSeconds: 600 } });
+      await store.put(session, TTL_SECONDS);
+
+      expect(await store.get(session.sessionId)).toEqual(session);
+    });
+
+    it('replaces the stored copy on put', async () => {
+      const session = buildSession();
+      await store.put(session, TTL_SECONDS);
+      await store.put({ ...session, status: SessionStatus.PAUSED, version: 2 }, TTL_SECONDS);
+
+      expect(await store.get(session.sessionId)).toMatchObject({ status: SessionStatus.PAUSED, version: 2 });
+    });
+
+    it('writes on compare-and-set only when the stored version matches', async () => {
+      const session = buildSession({ version: 3 });
+      await store.put(session, TTL_SECONDS);
+
+      expect(await store.compareAndSet({ ...session, version: 4, elapsedTime: 10 }, 2, TTL_SECONDS)).toBe('conflict');
+      expect(await store.get(session.sessionId)).toMatchObject({ version: 3, elapsedTime: 0 });
+
+      expect(await store.compareAndSet({ ...session, version: 4, elapsedTime: 10 }, 3, TTL_SECONDS)).toBe('written');
+      expect(await store.get(session.sessionId)).toMatchObject({ version: 4, elapsedTime: 10 });
+    });
+
+    it('reports a missing session on compare-and-set', async () => {
+      const session = buildSession();
+
+      expect(await store.compareAndSet(session, session.version, TTL_SECONDS)).toBe('missing');
+      expect(await store.get(session.sessionId)).toBeNull();
+    });
+
+    it('reports the remaining TTL and extends it on touch', async () => {
+      const session = buildSession();
+      await store.put(session, 30);
+
+      const ttl = await store.getTtl(session.sessionId);
+      expect(ttl).toBeGreaterThan(25);
+      expect(ttl).toBeLessThanOrEqual(30);
+
+      expect(await store.touch(session.sessionId, TTL_SECONDS)).toBe(true);
+      expect(await store.getTtl(session.sessionId)).toBeGreaterThan(30);
+    });
+
+    it('has no TTL and cannot be touched once missing', async () => {
+      const sessionId = uniqueId('missing');
+
+      expect(await store.getTtl(sessionId)).toBeNull();
+      expect(await store.touch(sessionId, TTL_SECONDS)).toBe(false);
+    });
+
+    it('deletes a session once', async () => {
+      const session = buildSession();
+      await store.put(session, TTL_SECONDS);
+
+      expect(await store.delete(session.sessionId)).toBe(true);
+      expect(await store.get(session.sessionId)).toBeNull();
+      expect(await store.delete(session.sessionId)).toBe(false);
+    });
+
+    it('lists stored sessions and leaves deleted ones out', async () => {
+      const kept = buildSession();
+      const deleted = buildSession();
+      await store.put(kept, TTL_SECONDS);
+      await store.put(deleted, TTL_SECONDS);
+      await store.delete(deleted.sessionId);
+
+      const sessionIds = await store.listSessionIds();
+      expect(sessionIds).toContain(kept.sessionId);
+      expect(sessionIds).not.toContain(deleted.sessionId);
+    });
+
+    it('indexes sessions per user', async () => {
+      const userId = uniqueId('user');
+      const first = uniqueId('session');
+      const second = uniqueId('session');
+
+      await store.addUserSession(userId, first);
+      await store.addUserSession(userId, second);
+      await store.addUserSession(userId, first);
+      expect((await store.getUserSessionIds(userId)).sort()).toEqual([first, second].sort());
+
+      await store.removeUserSession(userId, first);
+      await store.removeUserSession(userId, uniqueId('session'));
+      expect(await store.getUserSessionIds(userId)).toEqual([second]);
+
+      expect(await store.getUserSessionIds(uniqueId('user'))).toEqual([]);
+    });
+
+    it('drops a session once its TTL runs out', async () => {
+      const session = buildSession();
+      await store.put(session, 1);
+      await wait(1500);
+
+      expect(await store.get(session.sessionId)).toBeNull();
+      expect(await store.listSessionIds()).not.toContain(session.sessionId);
+      expect(await store.compareAndSet(session, session.version, TTL_SECONDS)).toBe('missing');
+    });
+  });
+
+  describe.skipIf(needsRedis && !redisAvailable)('LockStore', () => {
+    const store = createLockStore();
+
+    it('takes a free lock once', async () => {
+      const animalId = uniqueId('animal');
+
+      expect(await store.getHolder(animalId)).toBeNull();
+      expect(await store.acquire(animalId, 'owner-a', TTL_SECONDS)).toBe(true);
+      expect(await store.acquire(animalId, 'owner-b', TTL_SECONDS)).toBe(false);
+      expect(await store.getHolder(animalId)).toBe('owner-a');
+    });
+
+    it('renews only for the holder', async () => {
+      const animalId = uniqueId('animal');
+      await store.acquire(animalId, 'owner-a', TTL_SECONDS);
+
+      expect(await store.renew(animalId, 'owner-b', TTL_SECONDS)).toBe(false);
+      expect(await store.renew(animalId, 'owner-a', TTL_SECONDS)).toBe(true);
+      expect(await store.getHolder(animalId)).toBe('owner-a');
+    });
+
+    it('takes a free lock on renew', async () => {
+      const animalId = uniqueId('animal');
+
+      expect(await store.renew(animalId, 'owner-a', TTL_SECONDS)).toBe(true);
+      expect(await store.getHolder(animalId)).toBe('owner-a');
+    });
+
+    it('releases only for the holder', async () => {
+      const animalId = uniqueId('animal');
+      await store.acquire(animalId, 'owner-a', TTL_SECONDS);
+
+      expect(await store.release(animalId, 'owner-b')).toBe(false);
+      expect(await store.getHolder(animalId)).toBe('owner-a');
+
+      expect(await store.release(animalId, 'owner-a')).toBe(true);
+      expect(await store.getHolder(animalId)).toBeNull();
+      expect(await store.release(animalId, 'owner-a')).toBe(false);
+    });
+
+    it('issues growing fencing tokens per animal', async () => {
+      const animalId = uniqueId('animal');
+      const first = await store.nextFencingToken(animalId);
+      const second = await store.nextFencingToken(animalId);
+
+      expect(second).toBeGreaterThan(first);
+      expect(await store.nextFencingToken(uniqueId('animal'))).toBeGreaterThan(0);
+    });
+
+    it('never issues a fencing token at or below a raised one', async () => {
+      const animalId = uniqueId('animal');
+      const issued = await store.nextFencingToken(animalId);
+
+      await store.raiseFencingToken(animalId, issued + 10);
+      const afterRaise = await store.nextFencingToken(animalId);
+      expect(afterRaise).toBeGreaterThan(issued + 10);
+
+      await store.raiseFencingToken(animalId, 1);
+      expect(await store.nextFencingToken(animalId)).toBeGreaterThan(afterRaise);
+    });
+
+    it('frees a lock once its TTL runs out', async () => {
+      const animalId = uniqueId('animal');
+      await store.acquire(animalId, 'owner-a', 1);
+      await wait(1500);
+
+      expect(await store.getHolder(animalId)).toBeNull();
+      expect(await store.acquire(animalId, 'owner-b', TTL_SECONDS)).toBe(true);
+    });
+  });
+});
+
+afterAll(async () => {
+  if (redisAvailable) {
+    await withRedisClient(async (client) => {
+      for await (const key of client.scanIterator({ MATCH: `*${RUN_ID}*`, COUNT: 100 })) {
+        await client.del(key);
+      }
+    });
+  }
+  await disconnectRedis();
+});
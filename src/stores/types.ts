@@ -0,0 +1,153 @@
+import { ActiveSession } from '../utils/session-storage';
+
+/**
+ * Outcome of a compare-and-set write
+ * - written: the stored version matched and the session was replaced
+ * - conflict: the session was changed by someone else since the expected version
+ * - missing: the session does not exist
+ */
+export type CompareAndSetResult = 'written' | 'conflict' | 'missing';
+
+/**
+ * What happened to buffered sessions when they were reconciled into the primary store
+ */
+export interface SessionReconcileReport {
+  migrated: number; // Only in the fallback: copied to the primary store
+  replaced: number; // In both: the fallback copy was newer and replaced the primary copy
+  keptRedis: number; // In both: the primary copy was newer (or changed during reconciliation)
+  expired: number; // Expired in the fallback: dropped
+  failed: number; // Could not be written: left in the fallback for the next run
+}
+
+/**
+ * What happened to buffered locks when they were reconciled into the primary store
+ */
+export interface LockReconcileReport {
+  migrated: number; // Only in the fallback: copied to the primary store
+  alreadyPresent: number; // The primary store already held the same owner's lock
+  conflicts: number; // The primary store held another owner's lock: it wins and the fallback lock is dropped
+  expired: number; // Expired in the fallback: dropped
+  failed: number; // Could not be written: left in the fallback for the next run
+}
+
+/**
+ * Storage for active sessions and the per-user session index
+ * Stores hold records only; state transitions and their rules live in session-storage
+ * Implementations throw when their backend is unavailable
+ */
+export interface SessionStore {
+  /**
+   * Fetch a session
+   * @returns The session, or null if it does not exist or has expired
+   */
+  get(sessionId: string): Promise<ActiveSession | null>;
+
+  /**
+   * Store a session, replacing any existing copy
+   */
+  put(session: ActiveSession, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Replace a session only if its stored version is still expectedVersion
+   * The check and the write are atomic
+   */
+  compareAndSet(session: ActiveSession, expectedVersion: number, ttlSeconds: number): Promise<CompareAndSetResult>;
+
+  /**
+   * Extend a session's TTL without rewriting it
+   * @returns true if the session exists
+   */
+  touch(sessionId: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Remaining TTL of a session in seconds
+   * @returns The TTL, or null if the session does not exist or never expires
+   */
+  getTtl(sessionId: string): Promise<number | null>;
+
+  /**
+   * Delete a session
+   * @returns true if the session existed
+   */
+  delete(sessionId: string): Promise<boolean>;
+
+  /**
+   * IDs of every stored session (all users)
+   */
+  listSessionIds(): Promise<string[]>;
+
+  /**
+   * Add a session to a user's index
+   */
+  addUserSession(userId: string, sessionId: string): Promise<void>;
+
+  /**
+   * Remove a session from a user's index
+   */
+  removeUserSession(userId: string, sessionId: string): Promise<void>;
+
+  /**
+   * Session IDs in a user's index (may include sessions that have since expired)
+   */
+  getUserSessionIds(userId: string): Promise<string[]>;
+
+  /**
+   * Number of sessions buffered outside the primary store (stores that buffer only)
+   */
+  getPendingCount?(): number;
+
+  /**
+   * Move buffered sessions into the primary store (stores that buffer only)
+   */
+  reconcile?(): Promise<SessionReconcileReport>;
+}
+
+/**
+ * Storage for per-animal locks and their fencing token counters
+ * A lock's value identifies its holder; only the holder can renew or release it
+ * Implementations throw when their backend is unavailable
+ */
+export interface LockStore {
+  /**
+   * Take the lock if nobody holds it
+   * @returns true if the lock was taken
+   */
+  acquire(animalId: string, lockValue: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Extend the lock if lockValue holds it, or take it if nobody does
+   * @returns false if another holder has the lock
+   */
+  renew(animalId: string, lockValue: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Delete the lock if lockValue holds it
+   * @returns true if the lock was deleted
+   */
+  release(animalId: string, lockValue: string): Promise<boolean>;
+
+  /**
+   * Value of the current lock, or null if the animal is not locked
+   */
+  getHolder(animalId: string): Promise<string | null>;
+
+  /**
+   * Issue the animal's next fencing token (the counter only grows)
+   */
+  nextFencingToken(animalId: string): Promise<number>;
+
+  /**
+   * Raise the animal's fencing counter to at least token, so it is never issued again
+   */
+  raiseFencingToken(animalId: string, token: number): Promise<void>;
+
+  /**
+   * Number of locks buffered outside the primary store (stores that buffer only)
+   */
+  getPendingCount?(): number;
+
+  /**
+   * Move buffered locks and fencing counters into the primary store (stores that buffer only)
+   */
+  reconcile?(): Promise<LockReconcileReport>;
+}
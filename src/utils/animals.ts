@@ -0,0 +1,22 @@
+import { prisma } from './prisma';
+
+/**
+ * Check whether an animal is registered in the herd
+ * Returns true if the database cannot be reached so sessions keep working
+ * without the database (graceful degradation)
+ *
+ * @param animalId - Animal ID to look up
+ * @returns false only if the database confirms the animal does not exist
+ */
+export const isKnownAnimal = async (animalId: string): Promise<boolean> => {
+  try {
+    const animal = await prisma.animal.findUnique({
+      where: { id: animalId },
+      select: { id: true },
+    });
+    return animal !== null;
+  } catch (error: any) {
+    console.warn(`Could not verify animal ${animalId}, allowing session:`, error?.message || error);
+    return true;
+  }
+};
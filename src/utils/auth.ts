@@ -0,0 +1,126 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { config } from '../config/env';
+
+/**
+ * Claims carried by an auth token
+ */
+export interface AuthTokenPayload {
+  sub: string; // User ID
+  iat: number; // Issued at (seconds since epoch)
+  exp: number; // Expires at (seconds since epoch)
+}
+
+const SCRYPT_KEY_LENGTH = 64;
+
+const base64UrlEncode = (input: string | Buffer): string => {
+  return Buffer.from(input).toString('base64url');
+};
+
+const sign = (data: string): string => {
+  return createHmac('sha256', config.authTokenSecret).update(data).digest('base64url');
+};
+
+/**
+ * Issue a signed auth token for a user
+ * Tokens use the JWT compact format with an HS256 signature
+ *
+ * @param userId - User ID to embed as the token subject
+ * @param ttlSeconds - Optional token lifetime (default: AUTH_TOKEN_TTL_SECONDS)
+ * @returns Signed token and its expiry (Unix timestamp in milliseconds)
+ */
+export const signAuthToken = (
+  userId: string,
+  ttlSeconds: number = config.authTokenTtlSeconds
+): { token: string; expiresAt: number } => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AuthTokenPayload = { sub: userId, iat: now, exp: now + ttlSeconds };
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = sign(`${header}.${body}`);
+
+  return {
+    token: `${header}.${body}.${signature}`,
+    expiresAt: payload.exp * 1000,
+  };
+};
+
+/**
+ * Verify an auth token's signature and expiry
+ *
+ * @param token - Token presented by the client
+ * @returns Token payload if valid, null otherwise
+ */
+export const verifyAuthToken = (token: string): AuthTokenPayload | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, body, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as AuthTokenPayload;
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+    if (payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Extract a bearer token from an Authorization header value
+ */
+export const getBearerToken = (header: string | undefined): string | null => {
+  if (!header) {
+    return null;
+  }
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+const scryptAsync = (password: string, salt: Buffer): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+};
+
+/**
+ * Hash a password for storage
+ * @returns Hash in the form salt:hash (hex encoded)
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+/**
+ * Check a password against a stored hash
+ */
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [saltHex, hashHex] = storedHash.split(':');
+  if (!saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,173 @@
+import { CommandResult, SessionCommandEvent } from '../types/socket-events';
+import { getCommandKey } from '../constants/redis-keys';
+import { withRedisClient } from './redis';
+
+/**
+ * How long the outcome of a command is remembered (5 minutes)
+ * A retry with the same request ID within this window is answered from the
+ * first result instead of running the command again
+ */
+const COMMAND_TTL_SECONDS = 5 * 60;
+
+/**
+ * How long a duplicate waits for the first run of its command to finish
+ */
+const PENDING_WAIT_MS = 5000;
+const PENDING_POLL_MS = 100;
+
+/**
+ * Stored while the first run of a command is in progress
+ */
+const PENDING = 'pending';
+
+/**
+ * In-memory copy of command outcomes, used alone when Redis is unavailable
+ * Key: command key, Value: PENDING or the JSON result, with its expiry
+ */
+const inMemoryCommands = new Map<string, { value: string; expiresAt: number }>();
+
+const pruneInMemoryCommands = (now: number): void => {
+  inMemoryCommands.forEach((entry, key) => {
+    if (entry.expiresAt <= now) {
+      inMemoryCommands.delete(key);
+    }
+  });
+};
+
+/**
+ * Claim the first run of a command
+ * Redis decides across instances; if it cannot be reached the in-memory claim stands
+ *
+ * @returns true if this call should run the command
+ */
+const claimCommand = async (key: string): Promise<boolean> => {
+  const now = Date.now();
+  pruneInMemoryCommands(now);
+  if (inMemoryCommands.has(key)) {
+    return false;
+  }
+  inMemoryCommands.set(key, { value: PENDING, expiresAt: now + COMMAND_TTL_SECONDS * 1000 });
+
+  try {
+    const result = await withRedisClient((client) =>
+      client.set(key, PENDING, { EX: COMMAND_TTL_SECONDS, NX: true })
+    );
+    if (result !== 'OK') {
+      // Another instance ran (or is running) this command
+      inMemoryCommands.delete(key);
+      return false;
+    }
+  } catch (error) {
+    // Redis is unavailable: deduplicate on this instance only
+  }
+  return true;
+};
+
+/**
+ * Read the stored outcome of a command
+ * A local entry means this instance ran (or is running) the command, so Redis
+ * is only asked about commands claimed by other instances
+ *
+ * @returns PENDING, the JSON result, or null if unknown
+ */
+const readCommand = async (key: string): Promise<string | null> => {
+  const local = inMemoryCommands.get(key);
+  if (local && local.expiresAt > Date.now()) {
+    return local.value;
+  }
+
+  try {
+    return await withRedisClient((client) => client.get(key));
+  } catch (error) {
+    return null;
+  }
+};
+
+const storeCommandResult = async (key: string, value: string): Promise<void> => {
+  inMemoryCommands.set(key, { value, expiresAt: Date.now() + COMMAND_TTL_SECONDS * 1000 });
+  try {
+    await withRedisClient((client) => client.setEx(key, COMMAND_TTL_SECONDS, value));
+  } catch (error) {
+    // Retries reaching this instance are still answered from memory
+  }
+};
+
+const releaseCommand = async (key: string): Promise<void> => {
+  inMemoryCommands.delete(key);
+  try {
+    await withRedisClient((client) => client.del(key));
+  } catch (error) {
+    // The pending marker expires with the deduplication window
+  }
+};
+
+const inProgressResult = <T>(): CommandResult<T> => ({
+  ok: false,
+  error: { message: 'This request is still being processed, retry shortly', code: 'COMMAND_IN_PROGRESS' },
+});
+
+/**
+ * Wait for the first run of a command to store its result
+ */
+const waitForCommandResult = async <T>(key: string): Promise<CommandResult<T> | null> => {
+  const deadline = Date.now() + PENDING_WAIT_MS;
+  while (true) {
+    const stored = await readCommand(key);
+    if (stored === null) {
+      // The first run failed and released the request ID
+      return null;
+    }
+    if (stored !== PENDING) {
+      return JSON.parse(stored) as CommandResult<T>;
+    }
+    if (Date.now() >= deadline) {
+      return inProgressResult();
+    }
+    await new Promise((resolve) => setTimeout(resolve, PENDING_POLL_MS));
+  }
+};
+
+/**
+ * Run a client command at most once per request ID
+ * The first call runs the command and stores its result for the deduplication
+ * window; later calls with the same user, command and request ID (retries,
+ * possibly on another instance) get that result without acting again. A request
+ * ID reused for a different command runs that command. A call arriving
+ * while the first run is in progress waits for its result.
+ * If the command throws, nothing is stored and the request ID can be retried.
+ *
+ * @param userId - Acting user (request IDs are scoped per user)
+ * @param event - Command being run (request IDs are scoped per command)
+ * @param requestId - Client-generated request ID
+ * @param execute - Runs the command
+ * @returns Result of the first run
+ */
+export const runCommandOnce = async <T>(
+  userId: string,
+  event: SessionCommandEvent,
+  requestId: string,
+  execute: () => Promise<CommandResult<T>>
+): Promise<CommandResult<T>> => {
+  const key = getCommandKey(userId, event, requestId);
+
+  if (!(await claimCommand(key))) {
+    const stored = await waitForCommandResult<T>(key);
+    if (stored) {
+      return stored;
+    }
+    if (!(await claimCommand(key))) {
+      return inProgressResult();
+    }
+  }
+
+  let result: CommandResult<T>;
+  try {
+    result = await execute();
+  } catch (error) {
+    await releaseCommand(key);
+    throw error;
+  }
+
+  await storeCommandResult(key, JSON.stringify(result));
+  return result;
+};
@@ -0,0 +1,42 @@
+import { DeviceInfo } from '../types/socket-events';
+
+/**
+ * Longest device description kept for session timelines
+ */
+const MAX_DEVICE_LENGTH = 200;
+
+/**
+ * Describe the client issuing session actions, for session timelines
+ *
+ * @param userAgent - User-Agent header of the socket handshake or HTTP request
+ * @returns Truncated user agent, or null if the client sent none
+ */
+export const describeDevice = (userAgent: string | undefined): string | null => {
+  return userAgent ? userAgent.slice(0, MAX_DEVICE_LENGTH) : null;
+};
+
+/**
+ * Longest device ID accepted from a handshake
+ */
+const MAX_DEVICE_ID_LENGTH = 100;
+
+/**
+ * Read an optional device field sent by a client
+ */
+const readDeviceField = (value: unknown, maxLength: number): string | null => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text ? text.slice(0, maxLength) : null;
+};
+
+/**
+ * Identify the device behind a socket handshake
+ * The client's own name for the device is preferred over its user agent
+ *
+ * @param deviceId - handshake.auth.deviceId (ignored unless a non-empty string)
+ * @param deviceName - handshake.auth.deviceName (ignored unless a non-empty string)
+ * @param userAgent - User-Agent header of the handshake
+ */
+export const identifyDevice = (deviceId: unknown, deviceName: unknown, userAgent: string | undefined): DeviceInfo => ({
+  deviceId: readDeviceField(deviceId, MAX_DEVICE_ID_LENGTH),
+  name: readDeviceField(deviceName, MAX_DEVICE_LENGTH) ?? describeDevice(userAgent),
+});
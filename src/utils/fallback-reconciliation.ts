@@ -0,0 +1,106 @@
+import { onRedisReady } from './redis';
+import { getSessionStore, getLockStore, SessionReconcileReport, LockReconcileReport } from '../stores';
+
+/**
+ * Outcome of one reconciliation run
+ */
+export interface ReconciliationReport {
+  ranAt: string;
+  durationMs: number;
+  sessions: SessionReconcileReport;
+  locks: LockReconcileReport;
+}
+
+/**
+ * Reconciliation state reported by the health endpoint
+ */
+export interface ReconciliationStatus {
+  running: boolean;
+  pending: { sessions: number; locks: number };
+  lastRun: ReconciliationReport | null;
+}
+
+// Reported when the configured stores do not buffer anything (SESSION_STORE=redis or memory)
+const EMPTY_SESSION_REPORT: SessionReconcileReport = { migrated: 0, replaced: 0, keptRedis: 0, expired: 0, failed: 0 };
+const EMPTY_LOCK_REPORT: LockReconcileReport = { migrated: 0, alreadyPresent: 0, conflicts: 0, expired: 0, failed: 0 };
+
+let reconciliationInProgress = false;
+let rerunRequested = false;
+let lastReport: ReconciliationReport | null = null;
+let started = false;
+
+/**
+ * Move sessions and locks from the in-memory fallback into Redis
+ * Locks go first so sessions never land in Redis without their animal's lock
+ * A request made while a run is in progress triggers one more run afterwards
+ *
+ * @returns The run's report, or null if a run was already in progress
+ */
+export const reconcileFallbackState = async (): Promise<ReconciliationReport | null> => {
+  if (reconciliationInProgress) {
+    rerunRequested = true;
+    return null;
+  }
+  reconciliationInProgress = true;
+
+  try {
+    const startedAt = Date.now();
+    const locks = (await getLockStore().reconcile?.()) ?? EMPTY_LOCK_REPORT;
+    const sessions = (await getSessionStore().reconcile?.()) ?? EMPTY_SESSION_REPORT;
+    const report: ReconciliationReport = {
+      ranAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      sessions,
+      locks,
+    };
+
+    lastReport = report;
+
+    const moved = Object.values(sessions).concat(Object.values(locks)).some((count) => count > 0);
+    if (moved) {
+      console.log(
+        `[Reconcile] Sessions: ${sessions.migrated} migrated, ${sessions.replaced} replaced Redis, ` +
+          `${sessions.keptRedis} kept Redis, ${sessions.expired} expired, ${sessions.failed} failed; ` +
+          `Locks: ${locks.migrated} migrated, ${locks.alreadyPresent} already present, ` +
+          `${locks.conflicts} conflict(s), ${locks.expired} expired, ${locks.failed} failed`
+      );
+    }
+    return report;
+  } catch (error: any) {
+    console.error('[Reconcile] Failed to reconcile in-memory fallback state:', error?.message || error);
+    return null;
+  } finally {
+    reconciliationInProgress = false;
+    if (rerunRequested) {
+      rerunRequested = false;
+      void reconcileFallbackState();
+    }
+  }
+};
+
+/**
+ * Reconcile the in-memory fallback every time Redis (re)connects
+ */
+export const startFallbackReconciliation = (): void => {
+  if (started) {
+    return;
+  }
+  started = true;
+  onRedisReady(() => {
+    void reconcileFallbackState();
+  });
+};
+
+/**
+ * Current reconciliation state: what is still held in memory and what the last run did
+ */
+export const getReconciliationStatus = (): ReconciliationStatus => {
+  return {
+    running: reconciliationInProgress,
+    pending: {
+      sessions: getSessionStore().getPendingCount?.() ?? 0,
+      locks: getLockStore().getPendingCount?.() ?? 0,
+    },
+    lastRun: lastReport,
+  };
+};
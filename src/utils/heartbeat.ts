@@ -0,0 +1,46 @@
+import { getHeartbeatKey } from '../constants/redis-keys';
+import { get, setWithTTL, isRedisConnected } from './redis';
+
+/**
+ * How long a heartbeat is remembered (1 day)
+ * Older heartbeats are treated as never seen, which only matters to sessions
+ * that have been running for longer than that
+ */
+const HEARTBEAT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * In-memory fallback for heartbeats when Redis is unavailable
+ * Key: userId, Value: Unix timestamp in milliseconds
+ */
+const inMemoryHeartbeats = new Map<string, number>();
+
+/**
+ * Record that a user's client reported activity
+ * Stored in Redis so the instance ticking a session sees heartbeats received by any instance
+ *
+ * @param userId - User ID
+ * @param at - When the activity happened (default: now)
+ */
+export const recordHeartbeat = async (userId: string, at: number = Date.now()): Promise<void> => {
+  inMemoryHeartbeats.set(userId, at);
+  if (await isRedisConnected()) {
+    await setWithTTL(getHeartbeatKey(userId), String(at), HEARTBEAT_TTL_SECONDS);
+  }
+};
+
+/**
+ * When a user's client last reported activity
+ *
+ * @param userId - User ID
+ * @returns Unix timestamp in milliseconds, or null if no heartbeat was seen
+ */
+export const getLastHeartbeat = async (userId: string): Promise<number | null> => {
+  const local = inMemoryHeartbeats.get(userId) ?? null;
+  if (await isRedisConnected()) {
+    const stored = await get(getHeartbeatKey(userId));
+    if (stored) {
+      return Math.max(parseInt(stored, 10), local ?? 0);
+    }
+  }
+  return local;
+};
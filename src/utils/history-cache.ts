@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { withRedisClient } from './redis';
+import { getHistoryVersionKey } from '../constants/redis-keys';
+
+/**
+ * Current version of a user's history
+ * The version is part of every history and stats cache key, so bumping it
+ * (see invalidateUserHistory) makes all of the user's cached entries unreachable;
+ * they then expire on their own
+ *
+ * @param userId - User ID
+ * @returns Version (0 if the history never changed), or null if Redis is unavailable
+ */
+export const getHistoryVersion = async (userId: string): Promise<number | null> => {
+  try {
+    const version = await withRedisClient((client) => client.get(getHistoryVersionKey(userId)));
+    return version ? Number(version) : 0;
+  } catch (error: any) {
+    console.warn(`[HistoryCache] Could not read history version for user ${userId}:`, error?.message || error);
+    return null;
+  }
+};
+
+/**
+ * Invalidate a user's cached history and stats after sessions were written
+ * Called by every path that adds completed sessions to the database. If Redis is
+ * unavailable, cached entries are left to expire (at most their TTL)
+ *
+ * @param userId - User whose history changed
+ */
+export const invalidateUserHistory = async (userId: string): Promise<void> => {
+  try {
+    await withRedisClient((client) => client.incr(getHistoryVersionKey(userId)));
+  } catch (error: any) {
+    console.warn(`[HistoryCache] Could not invalidate history cache for user ${userId}:`, error?.message || error);
+  }
+};
+
+/**
+ * Entity tag of a serialized history page
+ * Derived from the content, so cached and freshly read pages with the same
+ * sessions have the same tag
+ */
+export const getHistoryETag = (serializedPage: string): string => {
+  return `"${createHash('sha1').update(serializedPage).digest('hex')}"`;
+};
+
+/**
+ * Check an If-None-Match header against an entity tag
+ * Accepts lists of tags, weak tags (W/"...") and *
+ */
+export const matchesETag = (ifNoneMatch: string | undefined, etag: string): boolean => {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+};
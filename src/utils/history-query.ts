@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { PayloadValidationResult, queryParam, validatePayload } from './payload-validation';
+
+/**
+ * Page size used when the request does not set one, and the largest accepted
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Fields history can be sorted by
+ */
+const SORT_FIELDS = ['startTime', 'endTime', 'duration'] as const;
+export type HistorySortField = (typeof SORT_FIELDS)[number];
+
+/**
+ * A validated GET /sessions query
+ */
+export interface HistoryQuery {
+  animalId?: string;
+  from?: Date; // Sessions started at or after this time
+  to?: Date; // Sessions started before this time
+  minDuration?: number; // Seconds, inclusive
+  maxDuration?: number; // Seconds, inclusive
+  sortBy: HistorySortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string; // ID of the last session of the previous page
+}
+
+/**
+ * The filter and sort part of a history query (what GET /sessions/export uses)
+ */
+export type HistoryFilters = Omit<HistoryQuery, 'limit' | 'cursor'>;
+
+/**
+ * Query parameter holding an ISO 8601 date or date-time
+ */
+const dateParam = () =>
+  queryParam()
+    .transform((value) => new Date(value))
+    .refine((date) => !Number.isNaN(date.getTime()), 'must be an ISO 8601 date or date-time');
+
+/**
+ * Query parameter holding an integer in a range
+ */
+const integerParam = (min: number, max: number) =>
+  queryParam()
+    .transform(Number)
+    .refine(
+      (number) => Number.isInteger(number) && number >= min && number <= max,
+      `must be an integer between ${min} and ${max}`
+    );
+
+/**
+ * Filter and sort parameters shared by GET /sessions and GET /sessions/export
+ * Unknown parameters are ignored
+ */
+export const historyFilterFields = {
+  animalId: queryParam().optional(),
+  from: dateParam().optional(),
+  to: dateParam().optional(),
+  minDuration: integerParam(0, Number.MAX_SAFE_INTEGER).optional(),
+  maxDuration: integerParam(0, Number.MAX_SAFE_INTEGER).optional(),
+  sortBy: z.enum(SORT_FIELDS).default('startTime'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+};
+
+/**
+ * Check the ranges of a history query (from before to, minDuration up to maxDuration)
+ */
+export const checkHistoryRanges = (
+  query: { from?: Date; to?: Date; minDuration?: number; maxDuration?: number },
+  context: z.RefinementCtx
+): void => {
+  if (query.from && query.to && query.from >= query.to) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: 'must be before to' });
+  }
+  if (query.minDuration !== undefined && query.maxDuration !== undefined && query.minDuration > query.maxDuration) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['minDuration'],
+      message: 'must not be greater than maxDuration',
+    });
+  }
+};
+
+/**
+ * Schema of the GET /sessions query
+ */
+const historyQuerySchema = z
+  .object({
+    ...historyFilterFields,
+    limit: integerParam(1, MAX_PAGE_SIZE).default(String(DEFAULT_PAGE_SIZE)),
+    cursor: queryParam().optional(),
+  })
+  .superRefine(checkHistoryRanges) satisfies z.ZodType<HistoryQuery, z.ZodTypeDef, unknown>;
+
+/**
+ * Validate the query parameters of GET /sessions
+ *
+ * @param query - Raw request query
+ * @returns Normalized query with defaults applied, or the parameters that are invalid
+ */
+export const parseHistoryQuery = (query: unknown): PayloadValidationResult<HistoryQuery> => {
+  return validatePayload(historyQuerySchema, query, 'history query');
+};
+
+/**
+ * Prisma filter for a user's sessions matching a query (pagination excluded)
+ */
+export const buildHistoryWhere = (userId: string, query: HistoryFilters): Prisma.MilkingSessionWhereInput => ({
+  userId,
+  ...(query.animalId ? { animalId: query.animalId } : {}),
+  ...(query.from || query.to
+    ? {
+        startTime: {
+          ...(query.from ? { gte: query.from } : {}),
+          ...(query.to ? { lt: query.to } : {}),
+        },
+      }
+    : {}),
+  ...(query.minDuration !== undefined || query.maxDuration !== undefined
+    ? {
+        duration: {
+          ...(query.minDuration !== undefined ? { gte: query.minDuration } : {}),
+          ...(query.maxDuration !== undefined ? { lte: query.maxDuration } : {}),
+        },
+      }
+    : {}),
+});
+
+/**
+ * Prisma ordering for a query
+ * The session ID breaks ties so cursor pagination is stable
+ */
+export const buildHistoryOrderBy = (query: HistoryFilters): Prisma.MilkingSessionOrderByWithRelationInput[] => [
+  { [query.sortBy]: query.order },
+  { id: query.order },
+];
+
+/**
+ * Identify a query for caching
+ * Equivalent queries (same filters, defaults applied) share a cache entry
+ *
+ * @returns Short hash of the normalized query
+ */
+export const getHistoryQueryHash = (query: HistoryQuery): string => {
+  const normalized = JSON.stringify([
+    query.animalId ?? null,
+    query.from?.toISOString() ?? null,
+    query.to?.toISOString() ?? null,
+    query.minDuration ?? null,
+    query.maxDuration ?? null,
+    query.sortBy,
+    query.order,
+    query.limit,
+    query.cursor ?? null,
+  ]);
+  return createHash('sha1').update(normalized).digest('hex').slice(0, 16);
+};
@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { z } from 'zod';
+
+/**
+ * Error code of every rejected socket payload, request body or query
+ */
+export const INVALID_PAYLOAD = 'INVALID_PAYLOAD';
+
+/**
+ * One problem with one field of a payload
+ */
+export interface ValidationIssue {
+  field: string; // Dotted path, e.g. milkYield.litres ("" for the payload itself)
+  message: string;
+}
+
+/**
+ * A rejected payload
+ */
+export interface PayloadValidationError {
+  code: typeof INVALID_PAYLOAD;
+  message: string; // Summary of every issue
+  details: ValidationIssue[];
+}
+
+/**
+ * Result of validating a payload against a schema
+ */
+export type PayloadValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; error: PayloadValidationError };
+
+/**
+ * Turn schema issues into field-level details
+ */
+const toIssues = (error: z.ZodError): ValidationIssue[] => {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+};
+
+/**
+ * Build the error for a rejected payload
+ *
+ * @param label - What the payload is, used in the summary message (e.g. "SESSION_STOP payload")
+ * @param details - Problems found
+ */
+export const toValidationError = (label: string, details: ValidationIssue[]): PayloadValidationError => {
+  const summary = details.map((issue) => (issue.field ? `${issue.field}: ${issue.message}` : issue.message));
+  return {
+    code: INVALID_PAYLOAD,
+    message: `Invalid ${label}: ${summary.join('; ')}`,
+    details,
+  };
+};
+
+/**
+ * Validate a payload against a schema
+ *
+ * @param schema - Schema of the expected payload
+ * @param input - Raw payload (socket event data, request body or query)
+ * @param label - What the payload is, used in the summary message (e.g. "SESSION_STOP payload")
+ * @returns Parsed value (defaults applied), or the issues found
+ */
+export const validatePayload = <S extends z.ZodTypeAny>(
+  schema: S,
+  input: unknown,
+  label: string
+): PayloadValidationResult<z.output<S>> => {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return { valid: true, value: result.data };
+  }
+
+  return { valid: false, error: toValidationError(label, toIssues(result.error)) };
+};
+
+/**
+ * Respond 400 with a rejected payload
+ * Body: { error, code, details } (error is the summary message)
+ */
+export const sendValidationError = (res: Response, error: PayloadValidationError) => {
+  return res.status(400).json({
+    error: error.message,
+    code: error.code,
+    details: error.details,
+  });
+};
+
+/**
+ * Schema of a query parameter that must appear at most once
+ * (Express parses ?a=1&a=2 into an array)
+ */
+export const queryParam = () => z.string({ invalid_type_error: 'must be a single value' }).min(1, 'must not be empty');
@@ -4,6 +4,7 @@ import { config } from '../config/env';
 let redisClient: RedisClientType | null = null;
 let lastErrorLogTime = 0;
 const ERROR_LOG_THROTTLE_MS = 10000; // Only log errors every 10 seconds
+const readyListeners: Array<() => void> = [];
 
 export const getRedisClient = (): RedisClientType => {
   if (redisClient) {
@@ -46,10 +47,22 @@ export const getRedisClient = (): RedisClientType => {
     console.log('Redis Client Disconnected');
   });
 
+  client.on('ready', () => {
+    readyListeners.forEach((listener) => listener());
+  });
+
   redisClient = client as RedisClientType;
   return redisClient;
 };
 
+/**
+ * Run a listener every time the Redis client becomes ready
+ * (the first connection and every reconnection after Redis was unavailable)
+ */
+export const onRedisReady = (listener: () => void): void => {
+  readyListeners.push(listener);
+};
+
 export const connectRedis = async (): Promise<void> => {
   try {
     const client = getRedisClient();
@@ -87,6 +100,29 @@ export const isRedisConnected = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Run an operation against the connected client
+ * Unlike the helpers below, errors are not swallowed, so callers can tell
+ * "Redis is unavailable" apart from "the key does not exist"
+ */
+export const withRedisClient = async <T>(operation: (client: RedisClientType) => Promise<T>): Promise<T> => {
+  const client = getRedisClient();
+  if (!client.isOpen) {
+    // Fail fast when Redis is down instead of waiting out the reconnect strategy
+    await Promise.race([
+      client.connect(),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Redis connection timeout')), 1500)
+      ),
+    ]);
+  }
+  if (!client.isReady) {
+    // Commands would queue until a reconnect that may never come
+    throw new Error('Redis is reconnecting');
+  }
+  return operation(client);
+};
+
 // TTL-based key operations
 export const setWithTTL = async (
   key: string,
@@ -172,29 +208,70 @@ export const getTTL = async (key: string): Promise<number> => {
 };
 
 /**
- * Set key with value only if it doesn't exist (NX) and set TTL
- * @param key - Redis key
- * @param value - Value to set
- * @param ttlSeconds - Time to live in seconds
- * @returns true if key was set, false if key already exists or Redis is unavailable
+ * Append a value to a Redis list
+ * @returns true if the value was appended, false if Redis is unavailable
  */
-export const setNxWithTTL = async (
-  key: string,
-  value: string,
-  ttlSeconds: number
-): Promise<boolean> => {
+export const rPush = async (key: string, value: string): Promise<boolean> => {
   try {
     const client = getRedisClient();
     if (!client.isOpen) {
       await client.connect();
     }
-    const result = await client.set(key, value, {
-      EX: ttlSeconds,
-      NX: true,
-    });
-    return result === 'OK';
+    await client.rPush(key, value);
+    return true;
   } catch (error) {
-    // Return false if Redis is unavailable
     return false;
   }
 };
+
+/**
+ * Get a range of values from a Redis list
+ * @returns List values, or null if Redis is unavailable
+ */
+export const lRange = async (key: string, start: number, stop: number): Promise<string[] | null> => {
+  try {
+    const client = getRedisClient();
+    if (!client.isOpen) {
+      await client.connect();
+    }
+    return await client.lRange(key, start, stop);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Remove occurrences of a value from a Redis list
+ * @returns Number of removed values (0 if Redis is unavailable)
+ */
+export const lRem = async (key: string, value: string, count: number = 1): Promise<number> => {
+  try {
+    const client = getRedisClient();
+    if (!client.isOpen) {
+      await client.connect();
+    }
+    return await client.lRem(key, count, value);
+  } catch (error) {
+    return 0;
+  }
+};
+
+/**
+ * Run a Lua script atomically
+ * @returns Script result, or null if Redis is unavailable
+ */
+export const evalScript = async (
+  script: string,
+  keys: string[],
+  args: string[]
+): Promise<unknown> => {
+  try {
+    const client = getRedisClient();
+    if (!client.isOpen) {
+      await client.connect();
+    }
+    return await client.eval(script, { keys, arguments: args });
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,243 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import {
+  HistoryFilters,
+  historyFilterFields,
+  checkHistoryRanges,
+  buildHistoryWhere,
+  buildHistoryOrderBy,
+} from './history-query';
+import { PayloadValidationResult, validatePayload } from './payload-validation';
+
+/**
+ * Sessions read from the database per query while exporting
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Content type of each export format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * A validated GET /sessions/export query
+ */
+export type ExportQuery = HistoryFilters & { format: ExportFormat };
+
+/**
+ * Schema of the GET /sessions/export query: the history filters and sort, and the format
+ */
+const exportQuerySchema = z
+  .object({
+    ...historyFilterFields,
+    format: z.enum(EXPORT_FORMATS).default('csv'),
+  })
+  .superRefine(checkHistoryRanges) satisfies z.ZodType<ExportQuery, z.ZodTypeDef, unknown>;
+
+/**
+ * Validate the query parameters of GET /sessions/export
+ * Pagination parameters (limit, cursor) are ignored: every matching session is exported
+ *
+ * @param query - Raw request query
+ * @returns Normalized query with defaults applied, or the parameters that are invalid
+ */
+export const parseExportQuery = (query: unknown): PayloadValidationResult<ExportQuery> => {
+  return validatePayload(exportQuerySchema, query, 'export query');
+};
+
+/**
+ * One exported session, flattened so every format has the same columns
+ */
+export interface ExportedSession {
+  id: string;
+  animalId: string | null;
+  animalTag: string | null;
+  animalName: string | null;
+  farm: string | null;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  elapsedTime: number;
+  pausedTime: number;
+  yieldLitres: number | null;
+  fatPercent: number | null;
+  snfPercent: number | null;
+  yieldNotes: string | null;
+  endReason: string;
+}
+
+const EXPORT_COLUMNS: Array<keyof ExportedSession> = [
+  'id',
+  'animalId',
+  'animalTag',
+  'animalName',
+  'farm',
+  'startTime',
+  'endTime',
+  'duration',
+  'elapsedTime',
+  'pausedTime',
+  'yieldLitres',
+  'fatPercent',
+  'snfPercent',
+  'yieldNotes',
+  'endReason',
+];
+
+/**
+ * Read a user's sessions matching history filters, one batch at a time
+ *
+ * @param userId - User ID
+ * @param query - Validated filters and sort
+ */
+async function* readSessionBatches(userId: string, query: HistoryFilters): AsyncGenerator<ExportedSession[]> {
+  const where = buildHistoryWhere(userId, query);
+  const orderBy = buildHistoryOrderBy(query);
+  let cursor: string | undefined;
+
+  while (true) {
+    const rows = await prisma.milkingSession.findMany({
+      where,
+      include: {
+        animal: {
+          select: { tagNumber: true, name: true, farm: true },
+        },
+      },
+      orderBy,
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    if (rows.length > 0) {
+      yield rows.map((row) => ({
+        id: row.id,
+        animalId: row.animalId,
+        animalTag: row.animal?.tagNumber ?? null,
+        animalName: row.animal?.name ?? null,
+        farm: row.animal?.farm ?? null,
+        startTime: row.startTime.toISOString(),
+        endTime: row.endTime.toISOString(),
+        duration: row.duration,
+        elapsedTime: row.elapsedTime,
+        pausedTime: row.pausedTime,
+        yieldLitres: row.yieldLitres,
+        fatPercent: row.fatPercent,
+        snfPercent: row.snfPercent,
+        yieldNotes: row.yieldNotes,
+        endReason: row.endReason,
+      }));
+    }
+
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Format one CSV cell
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheets do not run it as a formula
+ */
+const toCsvCell = (value: string | number | null): string => {
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values: Array<string | number | null>): string => `${values.map(toCsvCell).join(',')}\r\n`;
+
+/**
+ * Write a chunk, waiting for the output to drain when its buffer is full
+ *
+ * @returns false if the output was closed (e.g. the client went away)
+ */
+const writeChunk = async (output: Writable, chunk: string): Promise<boolean> => {
+  if (output.destroyed) {
+    return false;
+  }
+  if (!output.write(chunk)) {
+    await Promise.race([once(output, 'drain'), once(output, 'close')]);
+  }
+  return !output.destroyed;
+};
+
+/**
+ * Stream a user's sessions matching a history query to an output
+ * Sessions are read in batches and written as they arrive, so exports of any
+ * size use constant memory. Writing stops early if the output is closed.
+ * Nothing is written before the first batch is read, so a failing first query
+ * can still be reported as an error response.
+ *
+ * @param output - Destination (e.g. the HTTP response)
+ * @param userId - User ID
+ * @param query - Validated filters and sort
+ * @param format - csv (with header row), json (one array) or ndjson (one object per line)
+ * @returns Number of sessions written
+ */
+export const writeSessionExport = async (
+  output: Writable,
+  userId: string,
+  query: HistoryFilters,
+  format: ExportFormat
+): Promise<number> => {
+  let count = 0;
+  let started = false;
+
+  const start = async (): Promise<boolean> => {
+    started = true;
+    if (format === 'csv') {
+      return writeChunk(output, toCsvLine(EXPORT_COLUMNS));
+    }
+    if (format === 'json') {
+      return writeChunk(output, '[');
+    }
+    return true;
+  };
+
+  for await (const batch of readSessionBatches(userId, query)) {
+    if (!started && !(await start())) {
+      return count;
+    }
+
+    const chunk = batch
+      .map((session, index) => {
+        if (format === 'csv') {
+          return toCsvLine(EXPORT_COLUMNS.map((column) => session[column]));
+        }
+        if (format === 'json') {
+          return `${count + index === 0 ? '\n' : ',\n'}${JSON.stringify(session)}`;
+        }
+        return `${JSON.stringify(session)}\n`;
+      })
+      .join('');
+
+    count += batch.length;
+    if (!(await writeChunk(output, chunk))) {
+      return count;
+    }
+  }
+
+  if (!started && !(await start())) {
+    return count;
+  }
+  if (format === 'json') {
+    await writeChunk(output, count === 0 ? ']\n' : '\n]\n');
+  }
+  return count;
+};
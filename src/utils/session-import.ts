@@ -0,0 +1,485 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { PayloadValidationResult, toValidationError, validatePayload } from './payload-validation';
+import { SessionEndReason } from './session-storage';
+import { validateMilkYield } from './yield-validation';
+import { invalidateUserHistory } from './history-cache';
+
+/**
+ * Most records accepted in one import request
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Records written per database transaction
+ */
+const IMPORT_BATCH_SIZE = 200;
+
+/**
+ * Slack allowed when checking that elapsed plus paused time fits between start
+ * and end (times in exported files are rounded)
+ */
+const TIME_TOLERANCE_SECONDS = 1;
+
+/**
+ * Outcome of one imported record
+ * - created: saved as a new session
+ * - skipped: a session with the same start time already exists (or appears earlier in the file)
+ * - rejected: invalid, or could not be saved
+ */
+export type ImportRowStatus = 'created' | 'skipped' | 'rejected';
+
+/**
+ * Report for one record (rows are numbered from 1, the CSV header excluded)
+ */
+export interface ImportRowReport {
+  row: number;
+  status: ImportRowStatus;
+  id?: string; // Created session, or the existing session a skipped record duplicates
+  startTime?: string;
+  errors?: string[]; // Why the record was rejected or skipped
+}
+
+/**
+ * Report returned by POST /sessions/import
+ */
+export interface ImportReport {
+  total: number;
+  created: number;
+  skipped: number;
+  rejected: number;
+  rows: ImportRowReport[];
+}
+
+/**
+ * A validated record, ready to be saved
+ */
+interface ImportedSession {
+  startTime: Date;
+  endTime: Date;
+  elapsedTime: number;
+  pausedTime: number;
+  animalId: string | null;
+  animalTag: string | null;
+  yieldLitres: number | null;
+  fatPercent: number | null;
+  snfPercent: number | null;
+  yieldNotes: string | null;
+  endReason: string;
+}
+
+type RecordValidationResult = { valid: true; value: ImportedSession } | { valid: false; errors: string[] };
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain commas,
+ * doubled quotes and line breaks)
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  // Skip a UTF-8 byte order mark written by some spreadsheet programs
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines are not records
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Schema of a JSON import body: an array of records or { sessions: [...] }
+ * Records themselves are validated one by one (see validateRecord), so a bad
+ * record is reported in its row instead of failing the whole import
+ */
+const recordsSchema = z
+  .array(z.unknown())
+  .min(1, 'No sessions to import')
+  .max(MAX_IMPORT_ROWS, `At most ${MAX_IMPORT_ROWS} sessions can be imported at once`);
+
+const importBodySchema = z.union([recordsSchema, z.object({ sessions: recordsSchema }).transform((body) => body.sessions)], {
+  errorMap: () => ({
+    message: 'Body must be CSV (Content-Type: text/csv), a JSON array of sessions or { "sessions": [...] }',
+  }),
+});
+
+/**
+ * Read an import request body: CSV text with a header row, a JSON array of
+ * records or { sessions: [...] }
+ * Column names are those of GET /sessions/export, so exported files can be imported
+ *
+ * @param body - Parsed request body (a string for CSV)
+ * @returns Records keyed by column name, or what is wrong with the body
+ */
+export const parseImportBody = (body: unknown): PayloadValidationResult<Array<Record<string, unknown>>> => {
+  let input = body;
+
+  if (typeof body === 'string') {
+    const [header, ...rows] = parseCsv(body);
+    const columns = (header ?? []).map((column) => column.trim());
+    const missing = ['startTime', 'endTime'].filter((column) => !columns.includes(column));
+    if (missing.length > 0) {
+      return {
+        valid: false,
+        error: toValidationError(
+          'import',
+          missing.map((column) => ({ field: column, message: 'CSV header must include this column' }))
+        ),
+      };
+    }
+    input = rows.map((cells) =>
+      Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? '']))
+    );
+  }
+
+  const parsed = validatePayload(importBodySchema, input, 'import');
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  // Non-object JSON entries are kept as empty records so they are reported as rejected rows
+  return {
+    valid: true,
+    value: parsed.value.map((record) =>
+      record && typeof record === 'object' && !Array.isArray(record) ? (record as Record<string, unknown>) : {}
+    ),
+  };
+};
+
+/**
+ * Read an optional value; empty CSV cells and nulls count as missing
+ */
+const readValue = (record: Record<string, unknown>, name: string): unknown => {
+  const value = record[name];
+  return value === '' || value === null ? undefined : value;
+};
+
+const readNumber = (record: Record<string, unknown>, name: string, errors: string[]): number | undefined => {
+  const value = readValue(record, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    errors.push(`${name} must be a number`);
+    return undefined;
+  }
+  return number;
+};
+
+const readDate = (record: Record<string, unknown>, name: string, errors: string[]): Date | undefined => {
+  const value = readValue(record, name);
+  if (value === undefined) {
+    errors.push(`${name} is required`);
+    return undefined;
+  }
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    errors.push(`${name} must be an ISO 8601 date-time`);
+    return undefined;
+  }
+  return date;
+};
+
+const readString = (record: Record<string, unknown>, name: string, errors: string[]): string | undefined => {
+  const value = readValue(record, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${name} must be a string`);
+    return undefined;
+  }
+  // Undo the formula guard added to CSV exports
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+};
+
+/**
+ * Validate one record
+ * Elapsed and paused time default to filling the time between start and end
+ */
+const validateRecord = (record: Record<string, unknown>): RecordValidationResult => {
+  const errors: string[] = [];
+
+  const startTime = readDate(record, 'startTime', errors);
+  const endTime = readDate(record, 'endTime', errors);
+  const elapsedInput = readNumber(record, 'elapsedTime', errors);
+  const pausedInput = readNumber(record, 'pausedTime', errors);
+  const animalId = readString(record, 'animalId', errors) ?? null;
+  const animalTag = readString(record, 'animalTag', errors) ?? null;
+  const endReason = readString(record, 'endReason', errors) ?? SessionEndReason.STOPPED;
+
+  if (!(Object.values(SessionEndReason) as string[]).includes(endReason)) {
+    errors.push(`endReason must be one of: ${Object.values(SessionEndReason).join(', ')}`);
+  }
+
+  let elapsedTime = 0;
+  let pausedTime = 0;
+  if (startTime && endTime) {
+    const wallTime = (endTime.getTime() - startTime.getTime()) / 1000;
+    if (wallTime <= 0) {
+      errors.push('endTime must be after startTime');
+    } else if (endTime.getTime() > Date.now()) {
+      errors.push('endTime must not be in the future');
+    } else {
+      pausedTime = pausedInput ?? (elapsedInput !== undefined ? Math.max(0, wallTime - elapsedInput) : 0);
+      elapsedTime = elapsedInput ?? wallTime - pausedTime;
+      if (elapsedTime < 0 || pausedTime < 0) {
+        errors.push('elapsedTime and pausedTime must not be negative');
+      } else if (elapsedTime + pausedTime > wallTime + TIME_TOLERANCE_SECONDS) {
+        errors.push('elapsedTime plus pausedTime must not exceed the time between startTime and endTime');
+      }
+    }
+  }
+
+  // Yield fields follow the rules of yields recorded with SESSION_STOP
+  const litres = readNumber(record, 'yieldLitres', errors);
+  const fatPercent = readNumber(record, 'fatPercent', errors);
+  const snfPercent = readNumber(record, 'snfPercent', errors);
+  const notes = readString(record, 'yieldNotes', errors);
+  const hasYield = [litres, fatPercent, snfPercent, notes].some((value) => value !== undefined);
+  const yieldResult = validateMilkYield(hasYield ? { litres, fatPercent, snfPercent, notes } : null);
+  if (!yieldResult.valid) {
+    const columns: Record<string, string> = { litres: 'yieldLitres', notes: 'yieldNotes' };
+    errors.push(...yieldResult.error.details.map((issue) => `${columns[issue.field] ?? issue.field} ${issue.message}`));
+  }
+
+  if (errors.length > 0 || !yieldResult.valid) {
+    return { valid: false, errors };
+  }
+
+  const milkYield = yieldResult.value;
+  return {
+    valid: true,
+    value: {
+      startTime: startTime!,
+      endTime: endTime!,
+      elapsedTime,
+      pausedTime,
+      animalId,
+      animalTag,
+      yieldLitres: milkYield?.litres ?? null,
+      fatPercent: milkYield?.fatPercent ?? null,
+      snfPercent: milkYield?.snfPercent ?? null,
+      yieldNotes: milkYield?.notes ?? null,
+      endReason,
+    },
+  };
+};
+
+/**
+ * Resolve the animals referenced by records (by ID or ear tag)
+ *
+ * @returns Animal IDs by ID and by tag number
+ */
+const loadAnimals = async (sessions: ImportedSession[]): Promise<Map<string, string>> => {
+  const ids = [...new Set(sessions.map((session) => session.animalId).filter((id): id is string => !!id))];
+  const tags = [...new Set(sessions.map((session) => session.animalTag).filter((tag): tag is string => !!tag))];
+  const animals = new Map<string, string>();
+  if (ids.length === 0 && tags.length === 0) {
+    return animals;
+  }
+
+  const rows = await prisma.animal.findMany({
+    where: { OR: [{ id: { in: ids } }, { tagNumber: { in: tags } }] },
+    select: { id: true, tagNumber: true },
+  });
+  rows.forEach((animal) => {
+    animals.set(`id:${animal.id}`, animal.id);
+    animals.set(`tag:${animal.tagNumber}`, animal.id);
+  });
+  return animals;
+};
+
+/**
+ * Find the animal of a record
+ *
+ * @returns Animal ID (null for records without an animal), or an error
+ */
+const resolveAnimal = (
+  session: ImportedSession,
+  animals: Map<string, string>
+): { ok: true; animalId: string | null } | { ok: false; error: string } => {
+  const byId = session.animalId ? animals.get(`id:${session.animalId}`) : undefined;
+  const byTag = session.animalTag ? animals.get(`tag:${session.animalTag}`) : undefined;
+
+  if (session.animalId && !byId) {
+    return { ok: false, error: `Animal ${session.animalId} not found` };
+  }
+  if (session.animalTag && !byTag) {
+    return { ok: false, error: `No animal with tag ${session.animalTag}` };
+  }
+  if (byId && byTag && byId !== byTag) {
+    return { ok: false, error: `Animal ${session.animalId} does not have tag ${session.animalTag}` };
+  }
+  return { ok: true, animalId: byId ?? byTag ?? null };
+};
+
+/**
+ * Import historical sessions for a user
+ * Every record is validated on its own; valid records are saved in batches, one
+ * transaction per batch. Records whose start time matches an existing session of
+ * the user (the userId + startTime unique constraint) are skipped, so an import can
+ * safely be retried; that includes sessions saved while the import runs.
+ *
+ * @param userId - User the sessions are recorded for
+ * @param records - Records read by parseImportBody
+ * @returns Per-record report
+ */
+export const importSessions = async (userId: string, records: Array<Record<string, unknown>>): Promise<ImportReport> => {
+  const reports: ImportRowReport[] = records.map((_, index) => ({ row: index + 1, status: 'rejected' }));
+  const accepted: Array<{ index: number; session: ImportedSession }> = [];
+  const rowByStartTime = new Map<number, number>();
+
+  records.forEach((record, index) => {
+    const result = validateRecord(record);
+    if (!result.valid) {
+      reports[index].errors = result.errors;
+      return;
+    }
+
+    const session = result.value;
+    reports[index].startTime = session.startTime.toISOString();
+    const firstRow = rowByStartTime.get(session.startTime.getTime());
+    if (firstRow !== undefined) {
+      reports[index].status = 'skipped';
+      reports[index].errors = [`Same startTime as row ${firstRow}`];
+      return;
+    }
+    rowByStartTime.set(session.startTime.getTime(), index + 1);
+    accepted.push({ index, session });
+  });
+
+  const animals = await loadAnimals(accepted.map(({ session }) => session));
+  const resolved = accepted.flatMap(({ index, session }) => {
+    const animal = resolveAnimal(session, animals);
+    if (!animal.ok) {
+      reports[index].errors = [animal.error];
+      return [];
+    }
+    return [{ index, session, animalId: animal.animalId }];
+  });
+
+  for (let offset = 0; offset < resolved.length; offset += IMPORT_BATCH_SIZE) {
+    const batch = resolved.slice(offset, offset + IMPORT_BATCH_SIZE);
+    try {
+      await prisma.$transaction(async (tx) => {
+        const existing = await tx.milkingSession.findMany({
+          where: { userId, startTime: { in: batch.map(({ session }) => session.startTime) } },
+          select: { id: true, startTime: true },
+        });
+        const existingIds = new Map(existing.map((row) => [row.startTime.getTime(), row.id]));
+
+        const data = batch.flatMap(({ index, session, animalId }) => {
+          const existingId = existingIds.get(session.startTime.getTime());
+          if (existingId) {
+            reports[index] = { ...reports[index], status: 'skipped', id: existingId, errors: ['Session already exists'] };
+            return [];
+          }
+
+          const id = randomUUID();
+          reports[index] = { ...reports[index], status: 'created', id };
+          return [
+            {
+              id,
+              userId,
+              animalId,
+              startTime: session.startTime,
+              endTime: session.endTime,
+              duration: Math.round(session.elapsedTime), // Rounded like live sessions
+              elapsedTime: session.elapsedTime,
+              pausedTime: session.pausedTime,
+              yieldLitres: session.yieldLitres,
+              fatPercent: session.fatPercent,
+              snfPercent: session.snfPercent,
+              yieldNotes: session.yieldNotes,
+              endReason: session.endReason,
+            },
+          ];
+        });
+
+        if (data.length === 0) {
+          return;
+        }
+
+        // A session saved since the lookup (e.g. by a concurrent import) is skipped
+        // instead of failing the whole batch on the unique constraint
+        const { count } = await tx.milkingSession.createMany({ data, skipDuplicates: true });
+        if (count === data.length) {
+          return;
+        }
+
+        const saved = await tx.milkingSession.findMany({
+          where: { userId, startTime: { in: data.map((row) => row.startTime) } },
+          select: { id: true, startTime: true },
+        });
+        const savedIds = new Map(saved.map((row) => [row.startTime.getTime(), row.id]));
+        batch.forEach(({ index, session }) => {
+          const savedId = savedIds.get(session.startTime.getTime());
+          if (reports[index].status === 'created' && savedId && savedId !== reports[index].id) {
+            reports[index] = { ...reports[index], status: 'skipped', id: savedId, errors: ['Session already exists'] };
+          }
+        });
+        console.warn(`[Import] Skipped ${data.length - count} session(s) for user ${userId} saved during the import`);
+      });
+    } catch (error: any) {
+      // The whole batch was rolled back
+      console.error(`[Import] Failed to save batch of ${batch.length} sessions for user ${userId}:`, error?.message || error);
+      batch.forEach(({ index }) => {
+        reports[index] = {
+          row: index + 1,
+          status: 'rejected',
+          startTime: reports[index].startTime,
+          errors: ['Could not be saved (database error), retry the import'],
+        };
+      });
+    }
+  }
+
+  const count = (status: ImportRowStatus) => reports.filter((report) => report.status === status).length;
+  if (count('created') > 0) {
+    await invalidateUserHistory(userId);
+  }
+
+  return {
+    total: reports.length,
+    created: count('created'),
+    skipped: count('skipped'),
+    rejected: count('rejected'),
+    rows: reports,
+  };
+};
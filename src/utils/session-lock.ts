@@ -1,116 +1,97 @@
-import { setNxWithTTL, del, exists, isRedisConnected } from './redis';
-import { getMilkingLockKey } from '../constants/redis-keys';
+import { randomUUID } from 'crypto';
+import { getLockStore } from '../stores';
 
 /**
  * Default TTL for session locks (5 minutes)
+ * Locks of live sessions are renewed by the session sweeper (see renewSessionLocks),
+ * so this only bounds how long a lock outlives a session whose servers all died
  */
 const DEFAULT_LOCK_TTL_SECONDS = 300;
 
 /**
- * In-memory fallback for locks when Redis is unavailable
+ * A held animal lock
+ * ownerToken proves ownership (only the owner can renew or release the lock)
+ * fencingToken increases every time the animal's lock is acquired, so writes
+ * from a holder that lost its lock can be told apart from the current holder's
  */
-const inMemoryLocks = new Map<string, number>(); // userId -> expiration timestamp
+export interface SessionLock {
+  ownerToken: string;
+  fencingToken: number;
+}
+
+/**
+ * Value stored under the lock key
+ */
+const toLockValue = (lock: SessionLock): string => {
+  return `${lock.ownerToken}:${lock.fencingToken}`;
+};
 
 /**
  * Acquire a distributed lock for a milking session
- * Uses SET NX with TTL to ensure atomic lock acquisition
- * 
- * @param userId - User ID to acquire lock for
+ * The lock store takes the lock atomically (SET NX with TTL in Redis)
+ * Locks are held per animal so a worker can run several sessions at once
+ *
+ * @param animalId - Animal ID to acquire lock for
  * @param ttlSeconds - Optional TTL for the lock (default: 300 seconds / 5 minutes)
- * @returns true if lock was acquired, false if lock already exists
- * @throws Error if Redis operation fails
+ * @returns The held lock, or null if the animal is already locked
  */
 export const acquireSessionLock = async (
-  userId: string,
+  animalId: string,
   ttlSeconds: number = DEFAULT_LOCK_TTL_SECONDS
-): Promise<boolean> => {
-  const lockKey = getMilkingLockKey(userId);
-  const redisAvailable = await isRedisConnected();
-  
-  if (redisAvailable) {
-    try {
-      const lockValue = `locked:${Date.now()}`;
-      const acquired = await setNxWithTTL(lockKey, lockValue, ttlSeconds);
-      
-      if (!acquired) {
-        return false; // Lock already exists
-      }
-      
-      return true;
-    } catch (error) {
-      console.warn('Redis lock failed, using in-memory lock');
-    }
+): Promise<SessionLock | null> => {
+  const store = getLockStore();
+
+  // Check before issuing a token so failed attempts don't burn fencing tokens
+  if ((await store.getHolder(animalId)) !== null) {
+    return null; // Lock already exists
   }
-  
-  // Fallback to in-memory lock
-  const now = Date.now();
-  const existingLock = inMemoryLocks.get(userId);
-  if (existingLock && existingLock > now) {
-    return false; // Lock already exists and hasn't expired
+
+  const lock: SessionLock = {
+    ownerToken: randomUUID(),
+    fencingToken: await store.nextFencingToken(animalId),
+  };
+  if (!(await store.acquire(animalId, toLockValue(lock), ttlSeconds))) {
+    return null; // Lock already exists
   }
-  
-  // Acquire lock
-  inMemoryLocks.set(userId, now + ttlSeconds * 1000);
-  return true;
+
+  return lock;
+};
+
+/**
+ * Extend a lock held by its owner
+ * A lock that lapsed is taken back as long as nobody else acquired it meanwhile
+ *
+ * @param animalId - Animal ID the lock is for
+ * @param lock - Lock returned by acquireSessionLock
+ * @param ttlSeconds - Optional TTL for the lock (default: 300 seconds / 5 minutes)
+ * @returns true if the owner still holds the lock, false if another owner has it
+ */
+export const renewSessionLock = async (
+  animalId: string,
+  lock: SessionLock,
+  ttlSeconds: number = DEFAULT_LOCK_TTL_SECONDS
+): Promise<boolean> => {
+  return getLockStore().renew(animalId, toLockValue(lock), ttlSeconds);
 };
 
 /**
  * Release a distributed lock for a milking session
- * 
- * @param userId - User ID to release lock for
- * @returns true if lock was released, false if lock didn't exist or release failed
- * @throws Error if Redis operation fails
+ * Only the lock's owner can release it
+ *
+ * @param animalId - Animal ID to release lock for
+ * @param lock - Lock returned by acquireSessionLock
+ * @returns true if lock was released, false if it didn't exist or belongs to another owner
  */
-export const releaseSessionLock = async (userId: string): Promise<boolean> => {
-  const lockKey = getMilkingLockKey(userId);
-  const redisAvailable = await isRedisConnected();
-  
-  let released = false;
-  if (redisAvailable) {
-    try {
-      const deleted = await del(lockKey);
-      released = deleted > 0;
-    } catch (error) {
-      console.warn('Redis lock release failed, checking in-memory');
-    }
-  }
-  
-  // Also release from in-memory
-  if (inMemoryLocks.delete(userId)) {
-    released = true;
-  }
-  
-  return released;
+export const releaseSessionLock = async (animalId: string, lock: SessionLock): Promise<boolean> => {
+  return getLockStore().release(animalId, toLockValue(lock));
 };
 
 /**
- * Check if a session lock exists for a user
- * 
- * @param userId - User ID to check
+ * Check if a session lock exists for an animal
+ *
+ * @param animalId - Animal ID to check
  * @returns true if lock exists, false otherwise
  */
-export const hasSessionLock = async (userId: string): Promise<boolean> => {
-  const lockKey = getMilkingLockKey(userId);
-  const redisAvailable = await isRedisConnected();
-  
-  if (redisAvailable) {
-    try {
-      return await exists(lockKey);
-    } catch (error) {
-      console.warn('Redis lock check failed, checking in-memory');
-    }
-  }
-  
-  // Check in-memory lock
-  const lockExpiry = inMemoryLocks.get(userId);
-  if (lockExpiry) {
-    if (Date.now() < lockExpiry) {
-      return true; // Lock exists and hasn't expired
-    } else {
-      // Lock expired, clean it up
-      inMemoryLocks.delete(userId);
-    }
-  }
-  
-  return false;
+export const hasSessionLock = async (animalId: string): Promise<boolean> => {
+  return (await getLockStore().getHolder(animalId)) !== null;
 };
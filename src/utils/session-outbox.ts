@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { getSessionOutboxKey } from '../constants/redis-keys';
+import { isRedisConnected, rPush, lRange, lRem } from './redis';
+import { ActiveSession, SessionStatus } from './session-storage';
+import { isDatabaseAvailable, persistCompletedSession, PersistResult } from './session-persistence';
+import { MilkYield } from '../types/socket-events';
+
+/**
+ * Outbox entry status
+ * PENDING entries are replayed by the worker, FAILED entries need attention
+ */
+export enum OutboxEntryStatus {
+  PENDING = 'pending',
+  FAILED = 'failed',
+}
+
+/**
+ * Completed session waiting to be written to the database
+ */
+export interface OutboxEntry {
+  id: string;
+  session: ActiveSession;
+  milkYield: MilkYield | null;
+  endTime: number; // When the session was stopped (Unix timestamp in milliseconds)
+  status: OutboxEntryStatus;
+  attempts: number;
+  createdAt: number; // Unix timestamp in milliseconds
+  nextAttemptAt: number; // Unix timestamp in milliseconds
+  lastError?: string;
+}
+
+/**
+ * Where an outbox entry is stored
+ */
+export type OutboxBackend = 'redis' | 'file';
+
+// Replay backoff: 5s, 10s, 20s ... capped at 10 minutes
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+// After this many failed replays an entry is marked FAILED and no longer retried
+const MAX_REPLAY_ATTEMPTS = 20;
+
+let replayTimer: NodeJS.Timeout | null = null;
+let replayInProgress = false;
+
+// Serializes read-modify-write cycles on the outbox file
+let fileQueue: Promise<unknown> = Promise.resolve();
+
+const withFileLock = <T>(fn: () => Promise<T>): Promise<T> => {
+  const run = fileQueue.then(fn, fn);
+  fileQueue = run.catch(() => undefined);
+  return run;
+};
+
+const getBackoffMs = (attempts: number): number => {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+};
+
+const readOutboxFile = async (): Promise<OutboxEntry[]> => {
+  try {
+    const contents = await fs.readFile(config.outboxFilePath, 'utf8');
+    return JSON.parse(contents) as OutboxEntry[];
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('[Outbox] Failed to read outbox file:', error?.message || error);
+    }
+    return [];
+  }
+};
+
+/**
+ * Write the outbox file atomically (write to a temp file, then rename)
+ */
+const writeOutboxFile = async (entries: OutboxEntry[]): Promise<void> => {
+  const filePath = config.outboxFilePath;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+};
+
+const readRedisEntries = async (): Promise<OutboxEntry[]> => {
+  const values = await lRange(getSessionOutboxKey(), 0, -1);
+  if (!values) {
+    return [];
+  }
+
+  const entries: OutboxEntry[] = [];
+  values.forEach((value) => {
+    try {
+      entries.push(JSON.parse(value) as OutboxEntry);
+    } catch (error) {
+      console.error('[Outbox] Skipping unreadable Redis outbox entry');
+    }
+  });
+  return entries;
+};
+
+/**
+ * Store an entry, preferring Redis and falling back to the outbox file
+ */
+const storeEntry = async (entry: OutboxEntry): Promise<OutboxBackend> => {
+  const redisAvailable = await isRedisConnected();
+  if (redisAvailable && (await rPush(getSessionOutboxKey(), JSON.stringify(entry)))) {
+    return 'redis';
+  }
+
+  await withFileLock(async () => {
+    const entries = await readOutboxFile();
+    entries.push(entry);
+    await writeOutboxFile(entries);
+  });
+  return 'file';
+};
+
+/**
+ * Replace (or remove, when next is null) an entry in the backend it was read from
+ */
+const replaceEntry = async (
+  backend: OutboxBackend,
+  current: OutboxEntry,
+  next: OutboxEntry | null
+): Promise<void> => {
+  if (backend === 'redis') {
+    // Entries round-trip through JSON unchanged, so the serialized form identifies the list element
+    const removed = await lRem(getSessionOutboxKey(), JSON.stringify(current));
+    if (removed > 0 && next) {
+      await rPush(getSessionOutboxKey(), JSON.stringify(next));
+    }
+    return;
+  }
+
+  await withFileLock(async () => {
+    const entries = await readOutboxFile();
+    const remaining = entries.filter((entry) => entry.id !== current.id);
+    if (next) {
+      remaining.push(next);
+    }
+    await writeOutboxFile(remaining);
+  });
+};
+
+/**
+ * Add a completed session to the outbox
+ * Never throws: if neither Redis nor the file can be written the session is logged in full
+ *
+ * @param failure - If set, the entry is stored as FAILED with this error instead of being replayed
+ * @returns Backend the entry was stored in, or null if it could not be stored
+ */
+export const enqueueCompletedSession = async (
+  session: ActiveSession,
+  milkYield: MilkYield | null = null,
+  endTime: number = Date.now(),
+  failure?: string
+): Promise<OutboxBackend | null> => {
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    id: randomUUID(),
+    session,
+    milkYield,
+    endTime,
+    status: failure ? OutboxEntryStatus.FAILED : OutboxEntryStatus.PENDING,
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+    ...(failure ? { lastError: failure } : {}),
+  };
+
+  try {
+    const backend = await storeEntry(entry);
+    console.warn(`[Outbox] Session ${session.sessionId} queued for persistence (${backend})`);
+    return backend;
+  } catch (error: any) {
+    // Last resort: keep the record in the logs so it can be recovered by hand
+    console.error('[Outbox] Failed to queue completed session:', error?.message || error);
+    console.error('[Outbox] Unsaved session:', JSON.stringify(entry));
+    return null;
+  }
+};
+
+/**
+ * Persist a completed session, queueing it in the outbox if the database write fails
+ * Sessions rejected by the fencing check are kept as FAILED entries for review
+ *
+ * @returns Persisted record, or null if the session was queued instead
+ */
+export const persistOrEnqueueSession = async (
+  session: ActiveSession,
+  milkYield: MilkYield | null = null
+): Promise<PersistResult | null> => {
+  // Completed sessions keep their end time in lastUpdateTime
+  const endTime = session.status === SessionStatus.COMPLETED ? session.lastUpdateTime : Date.now();
+  const persisted = await persistCompletedSession(session, milkYield, endTime);
+  if (!persisted) {
+    await enqueueCompletedSession(session, milkYield, endTime);
+  } else if (persisted.fenced) {
+    await enqueueCompletedSession(session, milkYield, endTime, `Rejected by fencing check (newer session ${persisted.id})`);
+  }
+  return persisted;
+};
+
+/**
+ * List every outbox entry with the backend it is stored in
+ */
+export const getOutboxEntries = async (): Promise<Array<OutboxEntry & { backend: OutboxBackend }>> => {
+  const [redisEntries, fileEntries] = await Promise.all([
+    readRedisEntries(),
+    withFileLock(readOutboxFile),
+  ]);
+
+  return [
+    ...redisEntries.map((entry) => ({ ...entry, backend: 'redis' as const })),
+    ...fileEntries.map((entry) => ({ ...entry, backend: 'file' as const })),
+  ].sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Replay due outbox entries against the database
+ * Skipped entirely while the database is unavailable
+ *
+ * @returns Number of entries persisted in this run
+ */
+export const replayOutbox = async (): Promise<number> => {
+  if (replayInProgress) {
+    return 0;
+  }
+  replayInProgress = true;
+
+  try {
+    const entries = await getOutboxEntries();
+    const due = entries.filter(
+      (entry) => entry.status === OutboxEntryStatus.PENDING && entry.nextAttemptAt <= Date.now()
+    );
+    if (due.length === 0) {
+      return 0;
+    }
+
+    if (!(await isDatabaseAvailable())) {
+      return 0;
+    }
+
+    let replayed = 0;
+    for (const { backend, ...entry } of due) {
+      const persisted = await persistCompletedSession(entry.session, entry.milkYield, entry.endTime);
+      if (persisted?.fenced) {
+        await replaceEntry(backend, entry, {
+          ...entry,
+          status: OutboxEntryStatus.FAILED,
+          lastError: `Rejected by fencing check (newer session ${persisted.id})`,
+        });
+        continue;
+      }
+      if (persisted) {
+        await replaceEntry(backend, entry, null);
+        replayed++;
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      const failed = attempts >= MAX_REPLAY_ATTEMPTS;
+      await replaceEntry(backend, entry, {
+        ...entry,
+        attempts,
+        status: failed ? OutboxEntryStatus.FAILED : OutboxEntryStatus.PENDING,
+        nextAttemptAt: Date.now() + getBackoffMs(attempts),
+        lastError: 'Database write failed',
+      });
+      if (failed) {
+        console.error(`[Outbox] Session ${entry.session.sessionId} failed after ${attempts} attempts`);
+      }
+    }
+
+    if (replayed > 0) {
+      console.log(`[Outbox] Replayed ${replayed} queued session(s)`);
+    }
+    return replayed;
+  } catch (error: any) {
+    console.error('[Outbox] Replay failed:', error?.message || error);
+    return 0;
+  } finally {
+    replayInProgress = false;
+  }
+};
+
+/**
+ * Start the background worker that replays the outbox
+ */
+export const startOutboxWorker = (intervalMs: number = config.outboxReplayIntervalMs): void => {
+  if (replayTimer) {
+    return;
+  }
+  replayTimer = setInterval(() => {
+    void replayOutbox();
+  }, intervalMs);
+  // Replay anything left over from a previous run straight away
+  void replayOutbox();
+};
+
+/**
+ * Stop the background outbox worker
+ */
+export const stopOutboxWorker = (): void => {
+  if (replayTimer) {
+    clearInterval(replayTimer);
+    replayTimer = null;
+  }
+};
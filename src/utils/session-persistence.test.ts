@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActiveSession, SessionStatus } from './session-storage';
+import { persistCompletedSession } from './session-persistence';
+
+/**
+ * A persisted session with the fields the persistence queries filter on
+ */
+interface StoredSession {
+  id: string;
+  userId: string;
+  animalId: string | null;
+  startTime: Date;
+  fencingToken: number | null;
+}
+
+interface DateFilter {
+  gte?: Date;
+  lt?: Date;
+}
+
+const stored: StoredSession[] = [];
+
+const matchesDate = (value: Date, filter: Date | DateFilter): boolean => {
+  if (filter instanceof Date) {
+    return value.getTime() === filter.getTime();
+  }
+  return (
+    (filter.gte === undefined || value >= filter.gte) && (filter.lt === undefined || value < filter.lt)
+  );
+};
+
+// Evaluates the where clauses persistCompletedSession uses against the rows above
+vi.mock('./prisma', () => ({
+  prisma: {
+    $queryRaw: async () => [],
+    milkingSession: {
+      findFirst: async ({ where }: { where: any }) =>
+        stored.find(
+          (row) =>
+            (where.userId === undefined || row.userId === where.userId) &&
+            (where.animalId === undefined || row.animalId === where.animalId) &&
+            (where.startTime === undefined || matchesDate(row.startTime, where.startTime)) &&
+            (where.fencingToken === undefined ||
+              (row.fencingToken !== null && row.fencingToken > where.fencingToken.gt))
+        ) ?? null,
+      create: async ({ data }: { data: any }) => {
+        stored.push(data);
+        return data;
+      },
+    },
+  },
+}));
+
+vi.mock('./history-cache', () => ({
+  invalidateUserHistory: async () => undefined,
+}));
+
+const HOUR_MS = 3600 * 1000;
+
+const buildSession = (overrides: Partial<ActiveSession>): ActiveSession => ({
+  sessionId: 'session-new',
+  userId: 'user-1',
+  animalId: 'animal-1',
+  status: SessionStatus.COMPLETED,
+  startTime: Date.now() - HOUR_MS,
+  lastUpdateTime: Date.now(),
+  elapsedTime: 600,
+  totalPausedTime: 0,
+  version: 1,
+  lockOwnerToken: 'owner',
+  fencingToken: 1,
+  ...overrides,
+});
+
+describe('persistCompletedSession fencing', () => {
+  beforeEach(() => {
+    stored.length = 0;
+  });
+
+  it('saves a session whose token is below an older persisted session of the same animal', async () => {
+    // Finished before a restart reset the fencing counter
+    stored.push({
+      id: 'session-old',
+      userId: 'user-2',
+      animalId: 'animal-1',
+      startTime: new Date(Date.now() - 5 * HOUR_MS),
+      fencingToken: 7,
+    });
+
+    const result = await persistCompletedSession(buildSession({ fencingToken: 1 }));
+
+    expect(result).toEqual({ id: 'session-new', created: true });
+  });
+
+  it('rejects a session whose lock was taken over while it ran', async () => {
+    const session = buildSession({ fencingToken: 1 });
+    stored.push({
+      id: 'session-newer',
+      userId: 'user-2',
+      animalId: 'animal-1',
+      startTime: new Date(session.startTime + 60 * 1000),
+      fencingToken: 2,
+    });
+
+    const result = await persistCompletedSession(session);
+
+    expect(result).toEqual({ id: 'session-newer', created: false, fenced: true });
+  });
+});
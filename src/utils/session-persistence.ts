@@ -1,5 +1,7 @@
 import { prisma } from './prisma';
-import { ActiveSession } from './session-storage';
+import { ActiveSession, SessionEndReason } from './session-storage';
+import { MilkYield } from '../types/socket-events';
+import { invalidateUserHistory } from './history-cache';
 
 let lastDbErrorLogTime = 0;
 const DB_ERROR_LOG_THROTTLE_MS = 30000; // Only log errors every 30 seconds
@@ -7,7 +9,7 @@ const DB_ERROR_LOG_THROTTLE_MS = 30000; // Only log errors every 30 seconds
 /**
  * Check if database is available and tables exist
  */
-const isDatabaseAvailable = async (): Promise<boolean> => {
+export const isDatabaseAvailable = async (): Promise<boolean> => {
   try {
     // Try a simple query to check connection
     await prisma.$queryRaw`SELECT 1`;
@@ -29,17 +31,33 @@ const isDatabaseAvailable = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Outcome of persisting a completed session
+ * fenced: the write was rejected because the session's animal lock had been taken
+ * over by a newer session (higher fencing token) that started while it ran; id is that session's record
+ */
+export interface PersistResult {
+  id: string;
+  created: boolean;
+  fenced?: boolean;
+}
+
 /**
  * Persist a completed session to the database
  * Ensures idempotency by checking for existing session with same userId and startTime
+ * Rejects writes from a session that lost its animal lock (fencing token check)
  * Gracefully handles database unavailability
  * 
  * @param session - Active session from Redis
- * @returns Created or existing MilkingSession record, or null if database unavailable
+ * @param milkYield - Optional yield recorded when the session was stopped
+ * @param endTime - When the session was stopped (Unix timestamp in milliseconds, default: now)
+ * @returns Created, existing or fencing-rejected record, or null if database unavailable
  */
 export const persistCompletedSession = async (
-  session: ActiveSession
-): Promise<{ id: string; created: boolean } | null> => {
+  session: ActiveSession,
+  milkYield: MilkYield | null = null,
+  endTime: number = Date.now()
+): Promise<PersistResult | null> => {
   try {
     // Check if database is available first
     const dbAvailable = await isDatabaseAvailable();
@@ -53,7 +71,6 @@ export const persistCompletedSession = async (
     }
 
     const startTime = new Date(session.startTime);
-    const endTime = new Date();
     const duration = Math.round(session.elapsedTime); // Round to nearest second
 
     // Check for existing session (idempotency check)
@@ -74,20 +91,66 @@ export const persistCompletedSession = async (
       };
     }
 
+    // Fencing check: a newer lock holder for the same animal that started while this
+    // session ran means this session lost its lock. Sessions that started before this one
+    // are never newer, whatever their token (in-memory counters restart from 1)
+    if (session.animalId && session.fencingToken !== undefined) {
+      const newerSession = await prisma.milkingSession.findFirst({
+        where: {
+          animalId: session.animalId,
+          fencingToken: { gt: session.fencingToken },
+          startTime: { gte: startTime, lt: new Date(endTime) },
+        },
+        select: { id: true },
+      });
+
+      if (newerSession) {
+        console.warn(
+          `Session ${session.sessionId} rejected: animal ${session.animalId} was locked by session ` +
+            `${newerSession.id} with a newer fencing token`
+        );
+        return {
+          id: newerSession.id,
+          created: false,
+          fenced: true,
+        };
+      }
+    }
+
     // Create new session record
     const milkingSession = await prisma.milkingSession.create({
       data: {
+        id: session.sessionId, // Reuse the active session ID so clients can correlate records
         userId: session.userId,
+        animalId: session.animalId,
         startTime: startTime,
-        endTime: endTime,
+        endTime: new Date(endTime),
         duration: duration,
         elapsedTime: session.elapsedTime,
         pausedTime: session.totalPausedTime,
+        yieldLitres: milkYield?.litres ?? null,
+        fatPercent: milkYield?.fatPercent ?? null,
+        snfPercent: milkYield?.snfPercent ?? null,
+        yieldNotes: milkYield?.notes ?? null,
+        fencingToken: session.fencingToken ?? null,
+        endReason: session.endReason ?? SessionEndReason.STOPPED,
+        events: {
+          create: (session.events ?? []).map((event) => ({
+            type: event.type,
+            occurredAt: new Date(event.at),
+            elapsedTime: event.elapsedTime,
+            device: event.device,
+            reason: event.reason ?? null,
+          })),
+        },
       },
     });
 
     console.log(`Session persisted for user ${session.userId}: ${milkingSession.id}`);
     lastDbErrorLogTime = 0; // Reset error log throttle on success
+
+    // Retire cached history pages and stats so the new session shows up immediately
+    await invalidateUserHistory(session.userId);
     return {
       id: milkingSession.id,
       created: true,
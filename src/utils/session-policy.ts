@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { PayloadValidationResult, validatePayload } from './payload-validation';
+import { config } from '../config/env';
+
+/**
+ * Longest limit a policy can set (7 days)
+ */
+const MAX_POLICY_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Automatic controls applied to a running session (0 disables a control)
+ */
+export interface SessionPolicy {
+  inactivityPauseSeconds: number; // Auto-pause after this long without client activity
+  maxDurationSeconds: number; // Auto-stop once the session has run (elapsed time) this long
+}
+
+/**
+ * Values a user or farm policy sets; null inherits from the next level
+ */
+export interface SessionPolicyOverrides {
+  inactivityPauseSeconds: number | null;
+  maxDurationSeconds: number | null;
+}
+
+/**
+ * Server-wide policy (SESSION_INACTIVITY_PAUSE_SECONDS / SESSION_MAX_DURATION_SECONDS)
+ */
+export const getDefaultSessionPolicy = (): SessionPolicy => ({
+  inactivityPauseSeconds: config.defaultInactivityPauseSeconds,
+  maxDurationSeconds: config.defaultMaxSessionDurationSeconds,
+});
+
+/**
+ * Resolve the policy for a new session
+ * Each value comes from the user's policy, then the farm policy of the animal
+ * being milked, then the server default
+ * Falls back to the server defaults if the database cannot be reached
+ *
+ * @param userId - User starting the session
+ * @param animalId - Animal being milked
+ * @returns Resolved policy
+ */
+export const resolveSessionPolicy = async (userId: string, animalId: string): Promise<SessionPolicy> => {
+  const defaults = getDefaultSessionPolicy();
+  try {
+    const animal = await prisma.animal.findUnique({
+      where: { id: animalId },
+      select: { farm: true },
+    });
+    const [userPolicy, farmPolicy] = await Promise.all([
+      prisma.sessionPolicy.findUnique({ where: { userId } }),
+      animal?.farm ? prisma.sessionPolicy.findUnique({ where: { farm: animal.farm } }) : null,
+    ]);
+
+    return {
+      inactivityPauseSeconds:
+        userPolicy?.inactivityPauseSeconds ?? farmPolicy?.inactivityPauseSeconds ?? defaults.inactivityPauseSeconds,
+      maxDurationSeconds:
+        userPolicy?.maxDurationSeconds ?? farmPolicy?.maxDurationSeconds ?? defaults.maxDurationSeconds,
+    };
+  } catch (error: any) {
+    console.warn(`Could not load session policy for user ${userId}, using defaults:`, error?.message || error);
+    return defaults;
+  }
+};
+
+const policySecondsSchema = z
+  .number({ invalid_type_error: `must be null or an integer between 0 and ${MAX_POLICY_SECONDS}` })
+  .int(`must be null or an integer between 0 and ${MAX_POLICY_SECONDS}`)
+  .min(0, `must be null or an integer between 0 and ${MAX_POLICY_SECONDS}`)
+  .max(MAX_POLICY_SECONDS, `must be null or an integer between 0 and ${MAX_POLICY_SECONDS}`)
+  .nullable()
+  .default(null);
+
+/**
+ * Schema of a user or farm policy payload
+ */
+const sessionPolicySchema = z.object({
+  inactivityPauseSeconds: policySecondsSchema,
+  maxDurationSeconds: policySecondsSchema,
+}) satisfies z.ZodType<SessionPolicyOverrides, z.ZodTypeDef, unknown>;
+
+/**
+ * Validate a user or farm policy payload
+ * Omitted fields are treated as null (inherit)
+ *
+ * @param input - Raw request body
+ * @returns Normalized overrides, or the fields that are invalid
+ */
+export const validateSessionPolicy = (input: unknown): PayloadValidationResult<SessionPolicyOverrides> => {
+  return validatePayload(sessionPolicySchema, input, 'session policy');
+};
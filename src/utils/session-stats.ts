@@ -0,0 +1,225 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { PayloadValidationResult, queryParam, toValidationError, validatePayload } from './payload-validation';
+
+/**
+ * Default range per period when the request sets no `from` (in days, `to` included)
+ */
+const DEFAULT_RANGE_DAYS: Record<StatsPeriod, number> = {
+  day: 30,
+  week: 12 * 7,
+  month: 365,
+};
+
+const PERIODS = ['day', 'week', 'month'] as const;
+export type StatsPeriod = (typeof PERIODS)[number];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A validated GET /sessions/stats query
+ * Dates are calendar days in the query's timezone
+ */
+export interface StatsQuery {
+  period: StatsPeriod;
+  timezone: string; // IANA timezone, e.g. Asia/Kolkata
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  animalId?: string;
+}
+
+/**
+ * Aggregates over a set of sessions (times in seconds)
+ */
+export interface SessionAggregates {
+  sessionCount: number;
+  totalElapsedTime: number;
+  averageElapsedTime: number | null;
+  totalPausedTime: number;
+  longestSession: number | null; // Elapsed time of the longest session
+  shortestSession: number | null; // Elapsed time of the shortest session
+}
+
+/**
+ * Statistics returned by GET /sessions/stats
+ */
+export interface SessionStats extends StatsQuery {
+  totals: SessionAggregates;
+  periods: Array<SessionAggregates & { periodStart: string }>; // Periods with sessions, oldest first
+  animals: Array<SessionAggregates & { animalId: string | null }>; // Per animal, most sessions first
+  timeOfDay: Array<{ hour: number; sessionCount: number; totalElapsedTime: number }>; // By local start hour, 0-23
+}
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Today's date in a timezone (YYYY-MM-DD)
+ */
+const todayIn = (timezone: string): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(new Date());
+};
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+const addDays = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Query parameter holding a calendar date
+ */
+const dateParam = () =>
+  queryParam().refine(
+    (value) => DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime()),
+    'must be a date (YYYY-MM-DD)'
+  );
+
+/**
+ * Schema of the GET /sessions/stats query (before default dates are filled in)
+ */
+const statsQuerySchema = z
+  .object({
+    period: z.enum(PERIODS).default('day'),
+    timezone: queryParam().default('UTC').refine(isValidTimezone, 'must be an IANA timezone such as Europe/Berlin'),
+    from: dateParam().optional(),
+    to: dateParam().optional(),
+    animalId: queryParam().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    path: ['from'],
+    message: 'must not be after to',
+  });
+
+/**
+ * Validate the query parameters of GET /sessions/stats
+ *
+ * @param query - Raw request query
+ * @returns Normalized query with defaults applied, or the parameters that are invalid
+ */
+export const parseStatsQuery = (query: unknown): PayloadValidationResult<StatsQuery> => {
+  const parsed = validatePayload(statsQuerySchema, query, 'stats query');
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  const { period, timezone, from, to, animalId } = parsed.value;
+  const resolvedTo = to ?? todayIn(timezone);
+  const resolvedFrom = from ?? addDays(resolvedTo, 1 - DEFAULT_RANGE_DAYS[period]);
+  if (resolvedFrom > resolvedTo) {
+    return {
+      valid: false,
+      error: toValidationError('stats query', [{ field: 'from', message: 'must not be after to' }]),
+    };
+  }
+
+  return {
+    valid: true,
+    value: { period, timezone, from: resolvedFrom, to: resolvedTo, animalId },
+  };
+};
+
+/**
+ * Identify a stats query for caching
+ *
+ * @returns Short hash of the normalized query
+ */
+export const getStatsQueryHash = (query: StatsQuery): string => {
+  const normalized = JSON.stringify([query.period, query.timezone, query.from, query.to, query.animalId ?? null]);
+  return createHash('sha1').update(normalized).digest('hex').slice(0, 16);
+};
+
+/**
+ * Raw aggregate row (Postgres returns NULL sums and averages for empty sets)
+ */
+interface AggregateRow {
+  sessionCount: number;
+  totalElapsedTime: number | null;
+  averageElapsedTime: number | null;
+  totalPausedTime: number | null;
+  longestSession: number | null;
+  shortestSession: number | null;
+}
+
+const AGGREGATE_COLUMNS = Prisma.sql`
+  COUNT(*)::int AS "sessionCount",
+  SUM("elapsedTime") AS "totalElapsedTime",
+  AVG("elapsedTime") AS "averageElapsedTime",
+  SUM("pausedTime") AS "totalPausedTime",
+  MAX("elapsedTime") AS "longestSession",
+  MIN("elapsedTime") AS "shortestSession"
+`;
+
+const toAggregates = (row: AggregateRow | undefined): SessionAggregates => ({
+  sessionCount: row?.sessionCount ?? 0,
+  totalElapsedTime: row?.totalElapsedTime ?? 0,
+  averageElapsedTime: row?.averageElapsedTime ?? null,
+  totalPausedTime: row?.totalPausedTime ?? 0,
+  longestSession: row?.longestSession ?? null,
+  shortestSession: row?.shortestSession ?? null,
+});
+
+/**
+ * Compute a user's session statistics
+ * Start times are stored in UTC and converted to the query's timezone, so
+ * periods, date ranges and hours of day follow the user's local calendar
+ * Weeks start on Monday
+ *
+ * @param userId - User ID
+ * @param query - Validated stats query
+ * @returns Totals, per-period, per-animal and time-of-day aggregates
+ */
+export const getSessionStats = async (userId: string, query: StatsQuery): Promise<SessionStats> => {
+  // "startTime" is a UTC timestamp without zone; this converts it to local wall-clock time
+  const localStart = Prisma.sql`(("startTime" AT TIME ZONE 'UTC') AT TIME ZONE ${query.timezone})`;
+  const where = Prisma.sql`
+    WHERE "userId" = ${userId}
+      AND ${localStart} >= ${query.from}::date
+      AND ${localStart} < (${query.to}::date + 1)
+      ${query.animalId ? Prisma.sql`AND "animalId" = ${query.animalId}` : Prisma.empty}
+  `;
+
+  const [totals, periods, animals, hours] = await Promise.all([
+    prisma.$queryRaw<AggregateRow[]>`SELECT ${AGGREGATE_COLUMNS} FROM milking_sessions ${where}`,
+    prisma.$queryRaw<Array<AggregateRow & { periodStart: string }>>`
+      SELECT to_char(date_trunc(${query.period}, ${localStart}), 'YYYY-MM-DD') AS "periodStart", ${AGGREGATE_COLUMNS}
+      FROM milking_sessions ${where}
+      GROUP BY 1 ORDER BY 1
+    `,
+    prisma.$queryRaw<Array<AggregateRow & { animalId: string | null }>>`
+      SELECT "animalId", ${AGGREGATE_COLUMNS}
+      FROM milking_sessions ${where}
+      GROUP BY "animalId" ORDER BY "sessionCount" DESC, "animalId"
+    `,
+    prisma.$queryRaw<Array<{ hour: number; sessionCount: number; totalElapsedTime: number }>>`
+      SELECT EXTRACT(HOUR FROM ${localStart})::int AS hour, COUNT(*)::int AS "sessionCount", SUM("elapsedTime") AS "totalElapsedTime"
+      FROM milking_sessions ${where}
+      GROUP BY 1
+    `,
+  ]);
+
+  const timeOfDay = Array.from({ length: 24 }, (_, hour) => {
+    const row = hours.find((entry) => entry.hour === hour);
+    return { hour, sessionCount: row?.sessionCount ?? 0, totalElapsedTime: row?.totalElapsedTime ?? 0 };
+  });
+
+  return {
+    ...query,
+    totals: toAggregates(totals[0]),
+    periods: periods.map((row) => ({ periodStart: row.periodStart, ...toAggregates(row) })),
+    animals: animals.map((row) => ({ animalId: row.animalId, ...toAggregates(row) })),
+    timeOfDay,
+  };
+};
@@ -1,5 +1,8 @@
-import { get, setWithTTL, del, getTTL, isRedisConnected } from './redis';
-import { getActiveSessionKey } from '../constants/redis-keys';
+import { randomUUID } from 'crypto';
+import { SessionLock } from './session-lock';
+import { SessionPolicy } from './session-policy';
+import { getSessionStore } from '../stores';
+import { DeviceInfo } from '../types/socket-events';
 
 /**
  * Default TTL for active sessions (1 hour)
@@ -15,314 +18,468 @@ export enum SessionStatus {
   COMPLETED = 'completed',
 }
 
+/**
+ * Why a session ended
+ */
+export enum SessionEndReason {
+  STOPPED = 'stopped', // Stopped by the user
+  EXPIRED = 'expired', // Abandoned: finalized when its TTL ran out
+  MAX_DURATION = 'max_duration', // Auto-stopped at its policy's maximum duration
+}
+
+/**
+ * Why a session was paused
+ */
+export enum PauseReason {
+  USER = 'user', // Paused by the user
+  INACTIVITY = 'inactivity', // Auto-paused by its policy after no client activity
+}
+
+/**
+ * Kind of entry in a session's timeline
+ */
+export enum SessionEventType {
+  START = 'start',
+  PAUSE = 'pause',
+  RESUME = 'resume',
+  STOP = 'stop',
+}
+
+/**
+ * One state transition in a session's timeline
+ * Recorded with the transition itself and persisted with the completed session
+ */
+export interface SessionTimelineEvent {
+  type: SessionEventType;
+  at: number; // Unix timestamp in milliseconds
+  elapsedTime: number; // Active seconds at this point
+  device: string | null; // Device that issued the action, null when the server did (policy, expiry, recovery)
+  deviceId?: string | null; // ID that device sent in its handshake (live sessions only, not persisted)
+  reason?: PauseReason | SessionEndReason; // Why a pause or stop happened
+}
+
 /**
  * Active session data structure
  */
 export interface ActiveSession {
+  sessionId: string;
   userId: string;
+  animalId: string; // Animal being milked in this session
   status: SessionStatus;
   startTime: number; // Unix timestamp in milliseconds
-  lastUpdateTime: number; // Unix timestamp in milliseconds
-  elapsedTime: number; // Total elapsed time in seconds (excluding paused time)
+  lastUpdateTime: number; // Unix timestamp of the last state transition (milliseconds)
+  elapsedTime: number; // Active seconds accumulated up to lastUpdateTime (see getElapsedTime)
   pausedAt?: number; // Unix timestamp when paused (if paused)
+  pauseReason?: PauseReason; // Why the session is paused (if paused)
   totalPausedTime: number; // Total time spent paused in seconds
+  version: number; // Incremented on every state transition (optimistic concurrency)
+  lockOwnerToken: string; // Owner token of the animal lock held by this session
+  fencingToken: number; // Fencing token of that lock (checked when persisting)
+  endReason?: SessionEndReason; // Set when the session is completed
+  policy?: SessionPolicy; // Automatic controls resolved when the session started
+  events?: SessionTimelineEvent[]; // Timeline of state transitions, oldest first
 }
 
-/**
- * In-memory fallback storage for when Redis is unavailable
- */
-const inMemorySessions = new Map<string, { session: ActiveSession; expiresAt: number }>();
-
 /**
  * Create a new active session
  * 
  * @param userId - User ID
+ * @param animalId - Animal ID being milked
+ * @param lock - Animal lock acquired for the session
+ * @param policy - Optional automatic controls (auto-pause, auto-stop) for the session
+ * @param device - Device that started the session (recorded in its timeline)
  * @param ttlSeconds - Optional TTL for the session (default: 3600 seconds / 1 hour)
  * @returns Created session object
  * @throws Error if session creation fails
  */
 export const createSession = async (
   userId: string,
+  animalId: string,
+  lock: SessionLock,
+  policy?: SessionPolicy,
+  device: DeviceInfo | null = null,
   ttlSeconds: number = DEFAULT_SESSION_TTL_SECONDS
 ): Promise<ActiveSession> => {
   const now = Date.now();
   const session: ActiveSession = {
+    sessionId: randomUUID(),
     userId,
+    animalId,
     status: SessionStatus.ACTIVE,
     startTime: now,
     lastUpdateTime: now,
     elapsedTime: 0,
     totalPausedTime: 0,
+    version: 1,
+    lockOwnerToken: lock.ownerToken,
+    fencingToken: lock.fencingToken,
+    policy,
+    events: [{ type: SessionEventType.START, at: now, elapsedTime: 0, ...toEventDevice(device) }],
   };
 
-  const sessionKey = getActiveSessionKey(userId);
-  const redisAvailable = await isRedisConnected();
-  
-  if (redisAvailable) {
-    try {
-      await setWithTTL(sessionKey, JSON.stringify(session), ttlSeconds);
-    } catch (error) {
-      // Fallback to in-memory if Redis write fails
-      console.warn('Redis write failed, using in-memory storage');
-      inMemorySessions.set(sessionKey, {
-        session,
-        expiresAt: now + ttlSeconds * 1000,
-      });
-    }
-  } else {
-    // Use in-memory storage when Redis is unavailable
-    inMemorySessions.set(sessionKey, {
-      session,
-      expiresAt: now + ttlSeconds * 1000,
-    });
-  }
+  const store = getSessionStore();
+  await store.put(session, ttlSeconds);
+  await store.addUserSession(userId, session.sessionId);
 
   return session;
 };
 
 /**
- * Fetch active session by userId
+ * Fetch active session by sessionId
  * 
- * @param userId - User ID
+ * @param sessionId - Session ID
  * @returns Session object if exists, null otherwise
  */
-export const getSession = async (userId: string): Promise<ActiveSession | null> => {
-  const sessionKey = getActiveSessionKey(userId);
-  const redisAvailable = await isRedisConnected();
-  
-  if (redisAvailable) {
-    try {
-      const sessionData = await get(sessionKey);
-      if (sessionData) {
-        return JSON.parse(sessionData) as ActiveSession;
-      }
-    } catch (error) {
-      console.warn('Redis read failed, checking in-memory storage');
-    }
-  }
-  
-  // Fallback to in-memory storage
-  const inMemoryData = inMemorySessions.get(sessionKey);
-  if (inMemoryData) {
-    // Check if expired
-    if (Date.now() > inMemoryData.expiresAt) {
-      inMemorySessions.delete(sessionKey);
-      return null;
-    }
-    return inMemoryData.session;
-  }
-  
-  return null;
+export const getSession = async (sessionId: string): Promise<ActiveSession | null> => {
+  return getSessionStore().get(sessionId);
 };
 
 /**
- * Update elapsed time for an active session
- * Automatically extends TTL to prevent expiration during active use
+ * Fetch all active sessions for a user
+ * Session IDs whose session has expired are pruned from the index
+ * Sessions already marked completed are left out
  * 
  * @param userId - User ID
- * @returns Updated session object, or null if session doesn't exist
+ * @returns Active sessions ordered by start time (oldest first)
  */
-export const updateElapsedTime = async (userId: string): Promise<ActiveSession | null> => {
-  try {
-    const session = await getSession(userId);
+export const getUserSessions = async (userId: string): Promise<ActiveSession[]> => {
+  const store = getSessionStore();
+  const sessionIds = await store.getUserSessionIds(userId);
+
+  const sessions: ActiveSession[] = [];
+  for (const sessionId of sessionIds) {
+    const session = await getSession(sessionId);
     if (!session) {
-      return null;
+      await store.removeUserSession(userId, sessionId);
+    } else if (session.status !== SessionStatus.COMPLETED) {
+      // Completed sessions are being finalized and are about to be deleted
+      sessions.push(session);
     }
+  }
 
-    // Check if session is paused - don't update elapsed time if paused
-    if (session.status === SessionStatus.PAUSED) {
-      return session;
+  return sessions.sort((a, b) => a.startTime - b.startTime);
+};
+
+/**
+ * Fetch every active session known to this server (all users)
+ * (every session in the store, e.g. all active_session:* keys in Redis)
+ *
+ * @returns Active sessions ordered by start time (oldest first)
+ */
+export const getAllSessions = async (): Promise<ActiveSession[]> => {
+  const sessionIds = await getSessionStore().listSessionIds();
+
+  const sessions: ActiveSession[] = [];
+  for (const sessionId of sessionIds) {
+    const session = await getSession(sessionId);
+    if (session) {
+      sessions.push(session);
     }
+  }
 
-    const now = Date.now();
-    const timeSinceLastUpdate = (now - session.lastUpdateTime) / 1000; // Convert to seconds
+  return sessions.sort((a, b) => a.startTime - b.startTime);
+};
 
-    // Update elapsed time (only count active time, not paused time)
-    session.elapsedTime += timeSinceLastUpdate;
-    session.lastUpdateTime = now;
+/**
+ * Compute a session's elapsed active time
+ * Elapsed time is derived on read instead of being written to Redis every second:
+ * elapsedTime holds the active seconds accumulated up to lastUpdateTime (the last
+ * state transition), and an ACTIVE session has been running ever since
+ *
+ * @param session - Session to measure
+ * @param now - Point in time to measure at (default: now)
+ * @returns Elapsed active time in seconds (excluding paused time)
+ */
+export const getElapsedTime = (session: ActiveSession, now: number = Date.now()): number => {
+  if (session.status !== SessionStatus.ACTIVE) {
+    return session.elapsedTime;
+  }
+  return session.elapsedTime + Math.max(now - session.lastUpdateTime, 0) / 1000;
+};
 
-    // Get current TTL and extend it if needed (TTL safety)
-    const sessionKey = getActiveSessionKey(userId);
-    let currentTTL = await getTTL(sessionKey);
+/**
+ * Extend a session's TTL without rewriting it
+ * Called periodically for running sessions so they don't expire during use
+ *
+ * @param sessionId - Session ID
+ * @param ttlSeconds - Optional TTL (default: 3600 seconds / 1 hour)
+ */
+export const touchSession = async (
+  sessionId: string,
+  ttlSeconds: number = DEFAULT_SESSION_TTL_SECONDS
+): Promise<void> => {
+  await getSessionStore().touch(sessionId, ttlSeconds);
+};
 
-    // If TTL is -1 (no expiration) or -2 (key doesn't exist), use default
-    if (currentTTL < 0) {
-      currentTTL = DEFAULT_SESSION_TTL_SECONDS;
+/**
+ * A session about to expire
+ */
+export interface ExpiringSession {
+  session: ActiveSession;
+  lastActiveAt: number; // When its TTL was last refreshed (Unix timestamp in milliseconds)
+}
+
+/**
+ * Find sessions whose TTL runs out within the given window
+ * A session's TTL is refreshed on every transition and, while it runs, by its
+ * timer, so a session close to expiry has been abandoned
+ *
+ * @param withinSeconds - Expiry window
+ * @param ttlSeconds - TTL the sessions are refreshed with (default: 3600 seconds / 1 hour)
+ * @returns Expiring sessions with when they were last active
+ */
+export const getExpiringSessions = async (
+  withinSeconds: number,
+  ttlSeconds: number = DEFAULT_SESSION_TTL_SECONDS
+): Promise<ExpiringSession[]> => {
+  const store = getSessionStore();
+  const now = Date.now();
+  const expiring: ExpiringSession[] = [];
+
+  for (const session of await getAllSessions()) {
+    const remaining = await store.getTtl(session.sessionId);
+    if (remaining !== null && remaining <= withinSeconds) {
+      expiring.push({ session, lastActiveAt: now - (ttlSeconds - remaining) * 1000 });
     }
+  }
 
-    // Extend TTL to ensure session doesn't expire during active use
-    // Refresh TTL to default value to give full time window
-    const redisAvailable = await isRedisConnected();
-    if (redisAvailable) {
-      try {
-        await setWithTTL(sessionKey, JSON.stringify(session), DEFAULT_SESSION_TTL_SECONDS);
-      } catch (error) {
-        // Fallback to in-memory
-        inMemorySessions.set(sessionKey, {
-          session,
-          expiresAt: Date.now() + DEFAULT_SESSION_TTL_SECONDS * 1000,
-        });
-      }
-    } else {
-      // Update in-memory storage
-      inMemorySessions.set(sessionKey, {
-        session,
-        expiresAt: Date.now() + DEFAULT_SESSION_TTL_SECONDS * 1000,
-      });
+  return expiring;
+};
+
+/**
+ * Why a state transition was not applied
+ * - not_found: the session does not exist (or is already completing)
+ * - conflict: the session changed since the version the caller saw
+ */
+export type TransitionFailureReason = 'not_found' | 'conflict';
+
+/**
+ * Result of a session state transition
+ * On conflict, session holds the current state so callers can resynchronize
+ */
+export type TransitionResult =
+  | { ok: true; session: ActiveSession }
+  | { ok: false; reason: TransitionFailureReason; session?: ActiveSession };
+
+// Retries when a concurrent writer wins the race and the caller gave no expected version
+const MAX_TRANSITION_ATTEMPTS = 3;
+
+/**
+ * Apply a state transition atomically
+ * The session is re-read and written with compare-and-set on its version, so a
+ * transition never overwrites a concurrent one
+ *
+ * @param sessionId - Session ID
+ * @param expectedVersion - Version the caller last saw; any other version is a conflict
+ * @param apply - Returns the next state, or null if the session is already in the target state
+ */
+const transitionSession = async (
+  sessionId: string,
+  expectedVersion: number | undefined,
+  apply: (session: ActiveSession, now: number) => ActiveSession | null
+): Promise<TransitionResult> => {
+  let current: ActiveSession | null = null;
+
+  for (let attempt = 0; attempt < MAX_TRANSITION_ATTEMPTS; attempt++) {
+    current = await getSession(sessionId);
+    if (!current || current.status === SessionStatus.COMPLETED) {
+      return { ok: false, reason: 'not_found' };
+    }
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      return { ok: false, reason: 'conflict', session: current };
     }
 
-    return session;
-  } catch (error) {
-    console.error(`Failed to update elapsed time for user ${userId}:`, error);
-    return null;
+    const next = apply({ ...current }, Date.now());
+    if (!next) {
+      return { ok: true, session: current };
+    }
+    next.version = current.version + 1;
+
+    const written = await getSessionStore().compareAndSet(next, current.version, DEFAULT_SESSION_TTL_SECONDS);
+    if (written === 'written') {
+      return { ok: true, session: next };
+    }
+    if (written === 'missing') {
+      return { ok: false, reason: 'not_found' };
+    }
+    // Lost a race: the caller's expected version is now stale
+    if (expectedVersion !== undefined) {
+      return { ok: false, reason: 'conflict', session: (await getSession(sessionId)) ?? undefined };
+    }
   }
+
+  console.warn(`Session ${sessionId} transition kept conflicting after ${MAX_TRANSITION_ATTEMPTS} attempts`);
+  return { ok: false, reason: 'conflict', session: current ?? undefined };
 };
 
+/**
+ * Timeline fields identifying the device that issued an action
+ */
+const toEventDevice = (device: DeviceInfo | null): Pick<SessionTimelineEvent, 'device' | 'deviceId'> => ({
+  device: device?.name ?? null,
+  deviceId: device?.deviceId ?? null,
+});
+
+/**
+ * Append an entry to a session's timeline (sessions started before timelines
+ * were recorded get one from this point on)
+ */
+const recordEvent = (session: ActiveSession, event: SessionTimelineEvent): void => {
+  session.events = [...(session.events ?? []), event];
+};
+
+/**
+ * The animal lock held by a session
+ */
+export const getSessionLock = (session: ActiveSession): SessionLock => ({
+  ownerToken: session.lockOwnerToken,
+  fencingToken: session.fencingToken,
+});
+
 /**
  * Pause an active session
- * 
- * @param userId - User ID
- * @returns Updated session object, or null if session doesn't exist
+ *
+ * @param sessionId - Session ID
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @param reason - Why the session is paused (default: by the user)
+ * @param device - Device that paused the session (null: the server)
+ * @returns Transition result with the paused session
  */
-export const pauseSession = async (userId: string): Promise<ActiveSession | null> => {
+export const pauseSession = async (
+  sessionId: string,
+  expectedVersion?: number,
+  reason: PauseReason = PauseReason.USER,
+  device: DeviceInfo | null = null
+): Promise<TransitionResult> => {
   try {
-    const session = await getSession(userId);
-    if (!session) {
-      return null;
-    }
+    return await transitionSession(sessionId, expectedVersion, (session, now) => {
+      if (session.status === SessionStatus.PAUSED) {
+        return null; // Already paused
+      }
 
-    if (session.status === SessionStatus.PAUSED) {
-      return session; // Already paused
-    }
+      // Bank elapsed time up to the pause
+      session.elapsedTime = getElapsedTime(session, now);
+      session.lastUpdateTime = now;
 
-    // Update elapsed time before pausing
-    const now = Date.now();
-    const timeSinceLastUpdate = (now - session.lastUpdateTime) / 1000;
-    session.elapsedTime += timeSinceLastUpdate;
-    session.lastUpdateTime = now;
-
-    // Mark as paused
-    session.status = SessionStatus.PAUSED;
-    session.pausedAt = now;
-
-    // Update session with TTL extension
-    const sessionKey = getActiveSessionKey(userId);
-    const redisAvailable = await isRedisConnected();
-    if (redisAvailable) {
-      try {
-        let currentTTL = await getTTL(sessionKey);
-        if (currentTTL < 0) {
-          currentTTL = DEFAULT_SESSION_TTL_SECONDS;
-        }
-        await setWithTTL(sessionKey, JSON.stringify(session), DEFAULT_SESSION_TTL_SECONDS);
-      } catch (error) {
-        // Fallback to in-memory
-        inMemorySessions.set(sessionKey, {
-          session,
-          expiresAt: Date.now() + DEFAULT_SESSION_TTL_SECONDS * 1000,
-        });
-      }
-    } else {
-      // Update in-memory storage
-      inMemorySessions.set(sessionKey, {
-        session,
-        expiresAt: Date.now() + DEFAULT_SESSION_TTL_SECONDS * 1000,
+      // Mark as paused
+      session.status = SessionStatus.PAUSED;
+      session.pausedAt = now;
+      session.pauseReason = reason;
+      recordEvent(session, {
+        type: SessionEventType.PAUSE,
+        at: now,
+        elapsedTime: session.elapsedTime,
+        ...toEventDevice(device),
+        reason,
       });
-    }
-
-    return session;
+      return session;
+    });
   } catch (error) {
-    console.error(`Failed to pause session for user ${userId}:`, error);
-    return null;
+    console.error(`Failed to pause session ${sessionId}:`, error);
+    return { ok: false, reason: 'not_found' };
   }
 };
 
 /**
  * Resume a paused session
- * 
- * @param userId - User ID
- * @returns Updated session object, or null if session doesn't exist
+ *
+ * @param sessionId - Session ID
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @param device - Device that resumed the session (null: the server)
+ * @returns Transition result with the resumed session
  */
-export const resumeSession = async (userId: string): Promise<ActiveSession | null> => {
+export const resumeSession = async (
+  sessionId: string,
+  expectedVersion?: number,
+  device: DeviceInfo | null = null
+): Promise<TransitionResult> => {
   try {
-    const session = await getSession(userId);
-    if (!session) {
-      return null;
-    }
-
-    if (session.status !== SessionStatus.PAUSED) {
-      return session; // Not paused, return as-is
-    }
-
-    // Calculate total paused time
-    const now = Date.now();
-    if (session.pausedAt) {
-      const pausedDuration = (now - session.pausedAt) / 1000; // Convert to seconds
-      session.totalPausedTime += pausedDuration;
-    }
+    return await transitionSession(sessionId, expectedVersion, (session, now) => {
+      if (session.status !== SessionStatus.PAUSED) {
+        return null; // Not paused, return as-is
+      }
 
-    // Resume session
-    session.status = SessionStatus.ACTIVE;
-    session.lastUpdateTime = now;
-    session.pausedAt = undefined;
-
-    // Update session with TTL extension
-    const sessionKey = getActiveSessionKey(userId);
-    const redisAvailable = await isRedisConnected();
-    if (redisAvailable) {
-      try {
-        let currentTTL = await getTTL(sessionKey);
-        if (currentTTL < 0) {
-          currentTTL = DEFAULT_SESSION_TTL_SECONDS;
-        }
-        await setWithTTL(sessionKey, JSON.stringify(session), DEFAULT_SESSION_TTL_SECONDS);
-      } catch (error) {
-        // Fallback to in-memory
-        inMemorySessions.set(sessionKey, {
-          session,
-          expiresAt: Date.now() + DEFAULT_SESSION_TTL_SECONDS * 1000,
-        });
+      // Calculate total paused time
+      if (session.pausedAt) {
+        session.totalPausedTime += (now - session.pausedAt) / 1000;
       }
-    } else {
-      // Update in-memory storage
-      inMemorySessions.set(sessionKey, {
-        session,
-        expiresAt: Date.now() + DEFAULT_SESSION_TTL_SECONDS * 1000,
+
+      // Resume session
+      session.status = SessionStatus.ACTIVE;
+      session.lastUpdateTime = now;
+      session.pausedAt = undefined;
+      session.pauseReason = undefined;
+      recordEvent(session, {
+        type: SessionEventType.RESUME,
+        at: now,
+        elapsedTime: session.elapsedTime,
+        ...toEventDevice(device),
       });
-    }
+      return session;
+    });
+  } catch (error) {
+    console.error(`Failed to resume session ${sessionId}:`, error);
+    return { ok: false, reason: 'not_found' };
+  }
+};
+
+/**
+ * How a session is completed
+ */
+export interface CompletionOptions {
+  endReason?: SessionEndReason; // Default: stopped
+  endTime?: number; // When the session ended (Unix timestamp in milliseconds, default: now)
+  device?: DeviceInfo | null; // Device that stopped the session (default: null, the server)
+}
 
-    return session;
+/**
+ * Mark a session as completed, freezing its elapsed time
+ * Only one caller can complete a session; later attempts get not_found,
+ * so a session is never finalized twice
+ * The end time is kept in lastUpdateTime
+ *
+ * @param sessionId - Session ID
+ * @param expectedVersion - Optional version the caller last saw (stale versions conflict)
+ * @param options - Optional end reason and end time
+ * @returns Transition result with the completed session
+ */
+export const completeSession = async (
+  sessionId: string,
+  expectedVersion?: number,
+  options: CompletionOptions = {}
+): Promise<TransitionResult> => {
+  try {
+    return await transitionSession(sessionId, expectedVersion, (session, now) => {
+      // A session cannot end before its last transition or after now
+      const endTime = Math.max(Math.min(options.endTime ?? now, now), session.lastUpdateTime);
+      session.elapsedTime = getElapsedTime(session, endTime);
+      session.lastUpdateTime = endTime;
+      session.status = SessionStatus.COMPLETED;
+      session.endReason = options.endReason ?? SessionEndReason.STOPPED;
+      recordEvent(session, {
+        type: SessionEventType.STOP,
+        at: endTime,
+        elapsedTime: session.elapsedTime,
+        ...toEventDevice(options.device ?? null),
+        reason: session.endReason,
+      });
+      return session;
+    });
   } catch (error) {
-    console.error(`Failed to resume session for user ${userId}:`, error);
-    return null;
+    console.error(`Failed to complete session ${sessionId}:`, error);
+    return { ok: false, reason: 'not_found' };
   }
 };
 
 /**
  * Delete session on completion
  * 
- * @param userId - User ID
+ * @param session - Session to delete
  * @returns true if session was deleted, false if it didn't exist
  */
-export const deleteSession = async (userId: string): Promise<boolean> => {
-  const sessionKey = getActiveSessionKey(userId);
-  const redisAvailable = await isRedisConnected();
-  
-  let deleted = false;
-  if (redisAvailable) {
-    try {
-      const redisDeleted = await del(sessionKey);
-      deleted = redisDeleted > 0;
-    } catch (error) {
-      console.warn('Redis delete failed, checking in-memory storage');
-    }
-  }
-  
-  // Also delete from in-memory storage
-  if (inMemorySessions.delete(sessionKey)) {
-    deleted = true;
-  }
-  
+export const deleteSession = async (session: ActiveSession): Promise<boolean> => {
+  const store = getSessionStore();
+  const deleted = await store.delete(session.sessionId);
+  await store.removeUserSession(session.userId, session.sessionId);
   return deleted;
 };
-
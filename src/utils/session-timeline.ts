@@ -0,0 +1,136 @@
+import { prisma } from './prisma';
+import { getSession, SessionEventType, SessionStatus, SessionTimelineEvent } from './session-storage';
+
+/**
+ * A stretch of a session during which it was either running or paused
+ */
+export interface TimelineSegment {
+  state: 'active' | 'paused';
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp (now for the current segment of a running session)
+  duration: number; // Seconds
+  device: string | null; // Device that started the segment (null: the server)
+  reason: string | null; // Why a paused segment was paused
+}
+
+/**
+ * Timeline of one session as returned by GET /sessions/:id/timeline
+ */
+export interface SessionTimeline {
+  sessionId: string;
+  status: 'active' | 'paused' | 'completed';
+  startTime: string;
+  endTime: string | null; // null while the session is running
+  events: Array<{
+    type: string;
+    at: string;
+    elapsedTime: number;
+    device: string | null;
+    reason: string | null;
+  }>;
+  segments: TimelineSegment[];
+}
+
+/**
+ * Split a session into running and paused segments
+ * Each start or resume opens an active segment, each pause a paused one, and
+ * the stop closes the last segment
+ *
+ * @param events - Timeline events, oldest first
+ * @param until - End of the last segment when the session has not stopped (Unix timestamp in milliseconds)
+ * @returns Segments in order
+ */
+export const buildTimelineSegments = (events: SessionTimelineEvent[], until: number): TimelineSegment[] => {
+  const segments: TimelineSegment[] = [];
+  let open: { state: TimelineSegment['state']; start: number; device: string | null; reason: string | null } | null = null;
+
+  const close = (end: number) => {
+    if (open) {
+      segments.push({
+        state: open.state,
+        start: new Date(open.start).toISOString(),
+        end: new Date(end).toISOString(),
+        duration: Math.max(end - open.start, 0) / 1000,
+        device: open.device,
+        reason: open.reason,
+      });
+      open = null;
+    }
+  };
+
+  for (const event of events) {
+    close(event.at);
+    if (event.type !== SessionEventType.STOP) {
+      open = {
+        state: event.type === SessionEventType.PAUSE ? 'paused' : 'active',
+        start: event.at,
+        device: event.device,
+        reason: event.type === SessionEventType.PAUSE ? event.reason ?? null : null,
+      };
+    }
+  }
+  close(until);
+
+  return segments;
+};
+
+/**
+ * Build the API representation of a timeline
+ */
+const toTimeline = (
+  sessionId: string,
+  status: SessionTimeline['status'],
+  startTime: number,
+  endTime: number | null,
+  events: SessionTimelineEvent[]
+): SessionTimeline => ({
+  sessionId,
+  status,
+  startTime: new Date(startTime).toISOString(),
+  endTime: endTime === null ? null : new Date(endTime).toISOString(),
+  events: events.map((event) => ({
+    type: event.type,
+    at: new Date(event.at).toISOString(),
+    elapsedTime: event.elapsedTime,
+    device: event.device,
+    reason: event.reason ?? null,
+  })),
+  segments: buildTimelineSegments(events, endTime ?? Date.now()),
+});
+
+/**
+ * Fetch a session's timeline
+ * Completed sessions are read from the database; sessions still running are
+ * read from the active session store
+ * Sessions completed before timelines were recorded have no events
+ *
+ * @param userId - Authenticated user (only their sessions are returned)
+ * @param sessionId - Session ID
+ * @returns Timeline, or null if the user has no such session
+ */
+export const getSessionTimeline = async (userId: string, sessionId: string): Promise<SessionTimeline | null> => {
+  const stored = await prisma.milkingSession.findUnique({
+    where: { id: sessionId },
+    include: { events: { orderBy: { occurredAt: 'asc' } } },
+  });
+
+  if (stored) {
+    if (stored.userId !== userId) {
+      return null;
+    }
+    const events: SessionTimelineEvent[] = stored.events.map((event) => ({
+      type: event.type as SessionEventType,
+      at: event.occurredAt.getTime(),
+      elapsedTime: event.elapsedTime,
+      device: event.device,
+      reason: (event.reason ?? undefined) as SessionTimelineEvent['reason'],
+    }));
+    return toTimeline(sessionId, 'completed', stored.startTime.getTime(), stored.endTime.getTime(), events);
+  }
+
+  const active = await getSession(sessionId);
+  if (!active || active.userId !== userId || active.status === SessionStatus.COMPLETED) {
+    return null;
+  }
+  return toTimeline(sessionId, active.status, active.startTime, null, active.events ?? []);
+};
@@ -0,0 +1,61 @@
+import { config } from '../config/env';
+import { getTimerLeaseKey } from '../constants/redis-keys';
+import { evalScript } from './redis';
+
+/**
+ * How often a session's timer claims (or renews) its lease, in ticks (every 5 seconds)
+ */
+export const TIMER_LEASE_RENEW_TICKS = 5;
+
+/**
+ * Lease lifetime (15 seconds)
+ * Three renewals fit in it, so a slow tick does not lose the lease, and another
+ * instance takes over within about 20 seconds if the owner dies
+ */
+const TIMER_LEASE_TTL_MS = 15000;
+
+// Take the lease if it is free, or extend it if this instance already holds it
+const CLAIM_LEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current == false or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Delete the lease only if this instance holds it
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Claim (or renew) the right to tick a session
+ * Only one backend instance holds a session's lease at a time
+ * Without Redis there is only one instance, so the claim always succeeds
+ * Called every TIMER_LEASE_RENEW_TICKS ticks, not on every tick
+ *
+ * @param sessionId - Session ID
+ * @returns true if this instance should tick the session until its next claim
+ */
+export const claimTimerLease = async (sessionId: string): Promise<boolean> => {
+  const result = await evalScript(
+    CLAIM_LEASE_SCRIPT,
+    [getTimerLeaseKey(sessionId)],
+    [config.instanceId, String(TIMER_LEASE_TTL_MS)]
+  );
+  // null means the script could not run (e.g. Redis is down); keep ticking locally rather than stall
+  return result === null || result === 1;
+};
+
+/**
+ * Release a session's lease if this instance holds it
+ *
+ * @param sessionId - Session ID
+ */
+export const releaseTimerLease = async (sessionId: string): Promise<void> => {
+  await evalScript(RELEASE_LEASE_SCRIPT, [getTimerLeaseKey(sessionId)], [config.instanceId]);
+};
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { MilkYield } from '../types/socket-events';
+import { PayloadValidationResult, validatePayload } from './payload-validation';
+
+/**
+ * Accepted ranges for yield fields
+ */
+const MAX_YIELD_LITRES = 100;
+const MAX_PERCENT = 20;
+const MAX_NOTES_LENGTH = 500;
+
+const percentSchema = z
+  .number({ invalid_type_error: 'must be a number' })
+  .finite()
+  .min(0, `must be between 0 and ${MAX_PERCENT}`)
+  .max(MAX_PERCENT, `must be between 0 and ${MAX_PERCENT}`);
+
+/**
+ * Schema of the milk yield sent with SESSION_STOP
+ * Notes are trimmed; blank notes are dropped
+ */
+export const milkYieldSchema = z.object({
+  litres: z
+    .number({ required_error: 'is required', invalid_type_error: 'must be a number' })
+    .finite()
+    .gt(0, `must be greater than 0 and at most ${MAX_YIELD_LITRES}`)
+    .max(MAX_YIELD_LITRES, `must be greater than 0 and at most ${MAX_YIELD_LITRES}`),
+  fatPercent: percentSchema.optional(),
+  snfPercent: percentSchema.optional(),
+  notes: z
+    .string({ invalid_type_error: 'must be a string' })
+    .max(MAX_NOTES_LENGTH, `must be at most ${MAX_NOTES_LENGTH} characters`)
+    .transform((notes) => notes.trim() || undefined)
+    .optional(),
+}) satisfies z.ZodType<MilkYield, z.ZodTypeDef, unknown>;
+
+/**
+ * Validate an optional milk yield payload sent with SESSION_STOP
+ * A missing payload is valid (yield is optional)
+ *
+ * @param input - Raw payload received from the client
+ * @returns Normalized yield (or null if not provided), or the fields that are invalid
+ */
+export const validateMilkYield = (input: unknown): PayloadValidationResult<MilkYield | null> => {
+  if (input === undefined || input === null) {
+    return { valid: true, value: null };
+  }
+
+  return validatePayload(milkYieldSchema, input, 'milk yield');
+};
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    env: {
+      // Required by src/config/env.ts; the tests never connect to the database
+      DATABASE_URL: process.env.DATABASE_URL || 'postgresql://localhost:5432/milking_test',
+    },
+  },
+});